@@ -1,32 +1,104 @@
 // File: src/server.ts
 import "dotenv/config";
-import express, { type Request, type Response } from "express";
+import express, { type NextFunction, type Request, type Response } from "express";
 import cors from "cors";
+import multer from "multer";
 import { randomUUID } from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   StreamableHTTPServerTransport
 } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
-import { registerRunwayTools, createRunwayClient } from "./src/runwayTools.js";
+import YAML from "yaml";
+import { z } from "zod";
+import type RunwayML from "@runwayml/sdk";
+import {
+  registerRunwayTools,
+  callRunwayTool,
+  findRunwayTool,
+  getSharedRunwayClient,
+  taskOwner,
+  ToolForbiddenError,
+  ToolInputError
+} from "./src/runwayTools.js";
+import {
+  authenticate,
+  AuthError,
+  bearerToken,
+  canUseTool,
+  getAuthSettings,
+  principal,
+  type Identity
+} from "./src/auth.js";
+import {
+  getRunwayKeyVault,
+  RUNWAY_KEY_HEADER,
+  RUNWAY_KEY_META,
+  RUNWAY_KEY_REF_HEADER,
+  RUNWAY_KEY_REF_META,
+  runwayClientFor
+} from "./src/runwayKeys.js";
+import {
+  describeError,
+  ERROR_STATUS,
+  errorBody,
+  jsonRpcCode,
+  toolResultError,
+  type ErrorBody
+} from "./src/errors.js";
+import { buildOpenApiSpec } from "./src/openapi.js";
+import { createJob, getJob, watchJob, isTerminalStatus } from "./src/jobs.js";
+import { getTaskLedger, taskQueryShape } from "./src/taskLedger.js";
+import { listModels, MODEL_TASKS, type ModelTask } from "./src/models.js";
+import {
+  getOrganization,
+  getOrganizationUsage,
+  organizationUsageShape,
+  refineUsageRange
+} from "./src/organization.js";
+import { getAssetStorage } from "./src/assets.js";
+import { getIdempotencyStore, IDEMPOTENCY_KEY_HEADER } from "./src/idempotency.js";
+import { getPipelineStore } from "./src/pipelines.js";
+import { getTaskScheduler, schedulerSettings } from "./src/scheduler.js";
+import { getEventStoreFactory } from "./src/eventStore.js";
+import { SessionRegistry, sessionSettings } from "./src/sessions.js";
+import { registerTaskResources } from "./src/taskResources.js";
+import { describeUpload, getUploadStore, uploadLimits } from "./src/uploads.js";
+import { getUsageLimiter } from "./src/usage.js";
 
 /**
- * Build an MCP server instance and register tools.
+ * Build an MCP server instance and register the tools (and, if allowed, task
+ * resources) available to the session's identity.
  */
-function buildServer() {
+function buildServer(runway: RunwayML, baseUrl: string, identity?: Identity) {
   const server = new McpServer({
     name: "runway-mcp",
     version: "0.1.0"
   });
 
-  const runway = createRunwayClient();
-  registerRunwayTools(server, runway);
+  const ctx = {
+    runway,
+    ledger: getTaskLedger(),
+    assets: getAssetStorage(),
+    uploads: getUploadStore(),
+    pipelines: getPipelineStore(),
+    idempotency: getIdempotencyStore(),
+    scheduler: getTaskScheduler(),
+    usage: getUsageLimiter(),
+    baseUrl,
+    ...(identity ? { identity } : {})
+  };
+  registerRunwayTools(server, ctx);
+  if (canUseTool(identity, "runway.tasks.retrieve")) {
+    registerTaskResources(server, ctx);
+  }
 
   return server;
 }
 
 const app = express();
-app.use(express.json());
+// Large enough for runway.upload's base64 payloads; files should go to POST /uploads.
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || "25mb" }));
 
 // Serve static files from public directory
 app.use(express.static('public'));
@@ -37,27 +109,152 @@ app.use(
     origin: (process.env.ALLOWED_ORIGINS || "*")
       .split(",")
       .map((s) => s.trim()),
-    exposedHeaders: ["Mcp-Session-Id"],
-    allowedHeaders: ["Content-Type", "mcp-session-id"]
+    exposedHeaders: ["Mcp-Session-Id", "WWW-Authenticate"],
+    allowedHeaders: [
+      "Content-Type",
+      "Authorization",
+      "mcp-session-id",
+      RUNWAY_KEY_HEADER,
+      RUNWAY_KEY_REF_HEADER,
+      IDEMPOTENCY_KEY_HEADER,
+      "last-event-id"
+    ]
   })
 );
 
+/**
+ * Bearer authentication for API routes, active once API keys or OAuth are
+ * configured. The identity lands in res.locals.identity. With `tool`, the
+ * route also needs that tool's scope. /mcp and /gpt-action answer in JSON-RPC.
+ */
+function requireAuth({ jsonRpc = false, tool }: { jsonRpc?: boolean; tool?: string } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (getAuthSettings().authenticators.length === 0) return next();
+    // EventSource cannot set headers, so the events stream also takes ?access_token=.
+    const token =
+      bearerToken(req.headers.authorization) ??
+      (req.method === "GET" && req.path.endsWith("/events")
+        ? (req.query.access_token as string | undefined)
+        : undefined);
+    try {
+      const identity = await authenticate(token);
+      if (tool && !canUseTool(identity, tool)) {
+        throw new AuthError(new ToolForbiddenError(tool, identity.subject).message, 403);
+      }
+      res.locals.identity = identity;
+      next();
+    } catch (err: any) {
+      const status = err instanceof AuthError ? err.status : 500;
+      if (status === 401) {
+        const metadata = getAuthSettings().oauth?.issuer
+          ? `, resource_metadata="${publicBaseUrl(req)}/.well-known/oauth-protected-resource"`
+          : "";
+        const error = token ? `, error="invalid_token"` : "";
+        res.setHeader("WWW-Authenticate", `Bearer realm="runway-mcp"${error}${metadata}`);
+      } else if (status === 403) {
+        res.setHeader("WWW-Authenticate", `Bearer realm="runway-mcp", error="insufficient_scope"`);
+      } else {
+        console.error("Authentication failed:", err?.message ?? err);
+      }
+      sendError(res, err instanceof AuthError ? err : new Error("Authentication failed"), {
+        jsonRpc,
+        id: req.body?.id
+      });
+    }
+  };
+}
+
+type ErrorReply = { jsonRpc?: boolean; id?: unknown };
+
+/**
+ * Answer with a failure's stable code (see src/errors.ts) and the HTTP status
+ * for it. JSON-RPC routes wrap the same body in `error.data`.
+ */
+function sendError(res: Response, err: unknown, reply: ErrorReply = {}) {
+  return sendErrorBody(res, errorBody(describeError(err)), reply);
+}
+
+function sendErrorBody(res: Response, body: ErrorBody, { jsonRpc = false, id }: ErrorReply = {}) {
+  if (body.retryAfterSeconds !== undefined) {
+    res.setHeader("Retry-After", String(body.retryAfterSeconds));
+  }
+  res.status(ERROR_STATUS[body.error]);
+  if (jsonRpc) {
+    return res.json({
+      jsonrpc: "2.0",
+      error: { code: jsonRpcCode(body.error), message: body.message, data: body },
+      id: id ?? null
+    });
+  }
+  return res.json(body);
+}
+
+const identityOf = (res: Response): Identity | undefined => res.locals.identity;
+const ownerOf = (res: Response) => {
+  const identity = identityOf(res);
+  return identity && principal(identity);
+};
+
+/**
+ * The Runway client for a request: the caller's own key (X-Runway-Api-Key),
+ * a stored one (X-Runway-Key-Ref), or the shared key if the deployment allows
+ * it. Over MCP the initialize request's _meta may carry either instead.
+ */
+function runwayForRequest(req: Request, res: Response, meta: Record<string, unknown> = {}) {
+  const pick = (header: string, metaKey: string) => {
+    const value = req.headers[header] ?? meta[metaKey];
+    return typeof value === "string" ? value : undefined;
+  };
+  return runwayClientFor(
+    {
+      apiKey: pick(RUNWAY_KEY_HEADER, RUNWAY_KEY_META),
+      keyRef: pick(RUNWAY_KEY_REF_HEADER, RUNWAY_KEY_REF_META)
+    },
+    ownerOf(res)
+  );
+}
+
+/**
+ * Tool arguments with the Idempotency-Key header as `idempotencyKey`, which
+ * every generation tool takes; a key in the arguments wins. Other tools
+ * refuse the header rather than drop it, so a runway.batch or runway.pipeline
+ * retry cannot silently start every task again.
+ */
+function withIdempotencyKey(req: Request, toolName: unknown, args: unknown) {
+  const key = req.headers[IDEMPOTENCY_KEY_HEADER];
+  if (typeof key !== "string" || !key.trim() || !args || typeof args !== "object") {
+    return args;
+  }
+  const tool = typeof toolName === "string" ? findRunwayTool(toolName) : undefined;
+  if (tool && !("idempotencyKey" in tool.inputSchema)) {
+    throw new ToolInputError(tool.name, [
+      {
+        code: z.ZodIssueCode.custom,
+        path: ["idempotencyKey"],
+        message: `${tool.name} does not take an Idempotency-Key (batch items and pipeline steps take their own idempotencyKey)`
+      }
+    ]);
+  }
+  return { idempotencyKey: key.trim(), ...args };
+}
+
 /**
  * Stateful Streamable HTTP transport with session management.
- * This is compatible with GPT Actions' MCP support.
+ * This is compatible with GPT Actions' MCP support. A session belongs to the
+ * identity that initialized it; SessionRegistry decides when it ends.
  */
-const sessions: Record<
-  string,
-  { server: McpServer; transport: StreamableHTTPServerTransport }
-> = {};
+const sessions = new SessionRegistry();
+const eventStoreFor = getEventStoreFactory();
 
-app.all("/mcp", async (req: Request, res: Response) => {
+app.all("/mcp", requireAuth({ jsonRpc: true }), async (req: Request, res: Response) => {
   const acceptHeader = req.headers.accept || "";
 
-  // Validate that client accepts both required content types
+  // Validate that client accepts both required content types (DELETE, which
+  // ends the session, has no response body to negotiate).
   if (
-    !acceptHeader.includes("application/json") ||
-    !acceptHeader.includes("text/event-stream")
+    req.method === "POST" &&
+    (!acceptHeader.includes("application/json") ||
+      !acceptHeader.includes("text/event-stream"))
   ) {
     return res.status(406).json({
       jsonrpc: "2.0",
@@ -80,13 +277,33 @@ app.all("/mcp", async (req: Request, res: Response) => {
 
     let sessionId = (req.headers["mcp-session-id"] as string) || "";
 
-    if (!sessionId || isInit) {
+    // Only initialize starts a session; anything else must name one.
+    if (!sessionId && !isInit) {
+      return res.status(400).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: "Bad Request: send initialize first, then Mcp-Session-Id" },
+        id: req.body?.id ?? null
+      });
+    }
+
+    if (isInit) {
+      sessions.makeRoom();
+      const meta = req.body?.params?._meta ?? {};
+      const runway = await runwayForRequest(req, res, meta);
+      // The key has been used; nothing downstream should see or store it.
+      delete meta[RUNWAY_KEY_META];
+      delete meta[RUNWAY_KEY_REF_META];
+
       sessionId = randomUUID();
       res.setHeader("Mcp-Session-Id", sessionId);
-      const server = buildServer();
+      const identity = identityOf(res);
+      const server = buildServer(runway, publicBaseUrl(req), identity);
 
+      // Lets a client that lost its SSE stream resume with Last-Event-ID.
+      const eventStore = eventStoreFor(sessionId);
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => sessionId,
+        ...(eventStore ? { eventStore } : {}),
         enableDnsRebindingProtection: false,
         allowedHosts: (process.env.ALLOWED_HOSTS || "127.0.0.1,localhost,runway-generator-liard.vercel.app")
           .split(",")
@@ -96,318 +313,86 @@ app.all("/mcp", async (req: Request, res: Response) => {
           .map((s) => s.trim())
       });
 
-      // Clean up on connection close
-      res.on("close", () => {
-        try {
-          transport.close();
-          server.close();
-          delete sessions[sessionId];
-        } catch {
-          // ignore
-        }
+      // The session lives until DELETE /mcp, its transport closes or it
+      // expires, not just this response. Closing it aborts tool calls still
+      // waiting on Runway, which then cancel their tasks.
+      transport.onclose = () => {
+        sessions.remove(sessionId);
+      };
+
+      sessions.add(sessionId, {
+        server,
+        transport,
+        ...(identity ? { identity } : {}),
+        ownRunwayKey: runway !== getSharedRunwayClient(),
+        resumable: eventStore !== undefined
       });
+      await server.connect(transport);
+    }
 
-      sessions[sessionId] = { server, transport };
-      await sessions[sessionId].server.connect(transport);
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return res.status(404).json({
+        jsonrpc: "2.0",
+        error: { code: -32001, message: "Session not found" },
+        id: null
+      });
+    }
+
+    const owner = session.identity;
+    const caller = identityOf(res);
+    if (owner && (owner.subject !== caller?.subject || owner.method !== caller?.method)) {
+      return res.status(403).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: "Session belongs to a different identity" },
+        id: null
+      });
     }
 
-    // Dispatch the MCP HTTP request to the session transport.
-    const { server, transport } = sessions[sessionId];
-    await transport.handleRequest(req, res, req.body);
+    // Dispatch the MCP HTTP request to the session transport. The session
+    // does not go idle while the response (e.g. a waiting tool call) is open.
+    res.on("close", sessions.begin(sessionId));
+    await session.transport.handleRequest(req, res, req.body);
 
     // If the client issues DELETE /mcp with header mcp-session-id,
     // tear down the session explicitly.
     if (req.method === "DELETE") {
-      try {
-        transport.close();
-        server.close();
-        delete sessions[sessionId];
-      } catch {
-        // ignore
-      }
+      await sessions.close(sessionId);
     }
   } catch (err: any) {
     if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: "2.0",
-        error: {
-          code: -32603,
-          message: "Internal server error",
-          data: err?.message ?? String(err)
-        },
-        id: null
-      });
+      sendError(res, err, { jsonRpc: true, id: req.body?.id });
     }
   }
 });
 
 // GPT Actions compatible endpoint - returns JSON instead of SSE
-app.post("/gpt-action", async (req: Request, res: Response) => {
+app.post("/gpt-action", requireAuth({ jsonRpc: true }), async (req: Request, res: Response) => {
   try {
     // Handle MCP tools/call method
     if (req.body.method === "tools/call" && req.body.params) {
       const { name, arguments: args = {} } = req.body.params;
-      
-      // Import the runway tools directly
-      const { createRunwayClient } = await import('./src/runwayTools.js');
-      const runway = createRunwayClient();
-      
-      // Call the appropriate runway tool
-      let result;
-      
-      if (name === "runway.text_to_image") {
-        const { promptText, model = "gen4_image", ratio, seed, timeoutMs } = args;
-        
-        if (!promptText) {
-          return res.status(400).json({
-            jsonrpc: "2.0",
-            error: { 
-              code: -32602, 
-              message: "Missing required parameter 'promptText' for runway.text_to_image" 
-            },
-            id: req.body.id
-          });
-        }
-        
-        try {
-          // Always wait for completion - handle polling server-side
-          const createPromise = runway.textToImage.create({
-            model,
-            promptText,
-            ...(ratio ? { ratio } : {}),
-            ...(seed !== undefined ? { seed } : {})
-          });
-
-          const taskResult = await createPromise.waitForTaskOutput({
-            timeout: timeoutMs ?? 600000 // Default 10 minutes
-          });
-
-          const outputs = Array.isArray(taskResult.output) ? taskResult.output : [];
-          const resourceLinks = outputs.map((u, i) => ({
-            type: "resource_link",
-            resource: u,
-            name: `output_${String(i + 1).padStart(2, "0")}`
-          }));
-
-          result = {
-            content: [
-              ...resourceLinks,
-              {
-                type: "text",
-                text: JSON.stringify({
-                  taskId: taskResult.id,
-                  status: taskResult.status,
-                  output: outputs
-                }, null, 2)
-              }
-            ]
-          };
-        } catch (error: any) {
-          result = {
-            content: [
-              { type: "text", text: `Error: ${error.message}` }
-            ],
-            isError: true
-          };
-        }
-      } else if (name === "runway.image_to_video") {
-        const { promptImage, promptText, model = "gen4_turbo", ratio, timeoutMs } = args;
-        
-        if (!promptImage || !promptText) {
-          return res.status(400).json({
-            jsonrpc: "2.0",
-            error: { 
-              code: -32602, 
-              message: "Missing required parameters 'promptImage' and 'promptText' for runway.image_to_video" 
-            },
-            id: req.body.id
-          });
-        }
-        
-        try {
-          // Always wait for completion - handle polling server-side
-          const createPromise = runway.imageToVideo.create({
-            model,
-            promptImage,
-            promptText,
-            ...(ratio ? { ratio } : {})
-          });
-
-          const taskResult = await createPromise.waitForTaskOutput({
-            timeout: timeoutMs ?? 600000 // Default 10 minutes
-          });
-
-          const outputs = Array.isArray(taskResult.output) ? taskResult.output : [];
-          const resourceLinks = outputs.map((u, i) => ({
-            type: "resource_link",
-            resource: u,
-            name: `output_${String(i + 1).padStart(2, "0")}`
-          }));
-
-          result = {
-            content: [
-              ...resourceLinks,
-              {
-                type: "text",
-                text: JSON.stringify({
-                  taskId: taskResult.id,
-                  status: taskResult.status,
-                  output: outputs
-                }, null, 2)
-              }
-            ]
-          };
-        } catch (error: any) {
-          result = {
-            content: [
-              { type: "text", text: `Error: ${error.message}` }
-            ],
-            isError: true
-          };
-        }
-      } else if (name === "runway.video_upscale") {
-        const { video, model = "gen4_turbo", timeoutMs } = args;
-        
-        if (!video) {
-          return res.status(400).json({
-            jsonrpc: "2.0",
-            error: { 
-              code: -32602, 
-              message: "Missing required parameter 'video' for runway.video_upscale" 
-            },
-            id: req.body.id
-          });
-        }
-        
-        try {
-          // Always wait for completion - handle polling server-side
-          const createPromise = runway.videoUpscale.create({
-            model,
-            video
-          } as any);
-
-          const taskResult = await createPromise.waitForTaskOutput({
-            timeout: timeoutMs ?? 600000 // Default 10 minutes
-          });
-
-          const outputs = Array.isArray(taskResult.output) ? taskResult.output : [];
-          const resourceLinks = outputs.map((u, i) => ({
-            type: "resource_link",
-            resource: u,
-            name: `output_${String(i + 1).padStart(2, "0")}`
-          }));
-
-          result = {
-            content: [
-              ...resourceLinks,
-              {
-                type: "text",
-                text: JSON.stringify({
-                  taskId: taskResult.id,
-                  status: taskResult.status,
-                  output: outputs
-                }, null, 2)
-              }
-            ]
-          };
-        } catch (error: any) {
-          result = {
-            content: [
-              { type: "text", text: `Error: ${error.message}` }
-            ],
-            isError: true
-          };
-        }
-      } else if (name === "runway.tasks.retrieve") {
-        const { id, wait = false, timeoutMs } = args;
-        
-        if (!id) {
-          return res.status(400).json({
-            jsonrpc: "2.0",
-            error: { 
-              code: -32602, 
-              message: "Missing required parameter 'id' for runway.tasks.retrieve" 
-            },
-            id: req.body.id
-          });
-        }
-        
-        try {
-          const promise = runway.tasks.retrieve(id as string);
-          const taskResult = wait
-            ? await promise.waitForTaskOutput({ timeout: timeoutMs ?? undefined })
-            : await promise;
-
-          const outputs = Array.isArray((taskResult as any).output)
-            ? ((taskResult as any).output as string[])
-            : [];
-
-          const resourceLinks = outputs.map((u, i) => ({
-            type: "resource_link",
-            resource: u,
-            name: `output_${String(i + 1).padStart(2, "0")}`
-          }));
-
-          result = {
-            content: [
-              ...resourceLinks,
-              {
-                type: "text",
-                text: JSON.stringify(taskResult, null, 2)
-              }
-            ]
-          };
-        } catch (error: any) {
-          result = {
-            content: [
-              { type: "text", text: `Error: ${error.message}` }
-            ],
-            isError: true
-          };
-        }
-      } else if (name === "runway.tasks.cancel") {
-        const { id } = args;
-        
-        if (!id) {
-          return res.status(400).json({
-            jsonrpc: "2.0",
-            error: { 
-              code: -32602, 
-              message: "Missing required parameter 'id' for runway.tasks.cancel" 
-            },
-            id: req.body.id
-          });
-        }
-        
-        try {
-          // @ts-expect-error: some SDK versions expose cancel()
-          const cancelled = await (runway.tasks.cancel?.(id) ??
-            runway.post?.(`/v1/tasks/${id}/cancel`, {}));
-          
-          result = {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(cancelled ?? { id, cancelled: true }, null, 2)
-              }
-            ]
-          };
-        } catch (error: any) {
-          result = {
-            content: [
-              { type: "text", text: `Error: ${error.message}` }
-            ],
-            isError: true
-          };
-        }
-      } else {
-        return res.status(400).json({
-          jsonrpc: "2.0",
-          error: { code: -32601, message: `Tool ${name} not found` },
-          id: req.body.id
-        });
+
+      // Dispatch through the same tool catalog the MCP server registers.
+      const result = await callRunwayTool(name, withIdempotencyKey(req, name, args), {
+        runway: await runwayForRequest(req, res),
+        ledger: getTaskLedger(),
+        client: "gpt-action",
+        identity: identityOf(res),
+        assets: getAssetStorage(),
+        uploads: getUploadStore(),
+        pipelines: getPipelineStore(),
+        idempotency: getIdempotencyStore(),
+        scheduler: getTaskScheduler(),
+        usage: getUsageLimiter(),
+        baseUrl: publicBaseUrl(req)
+      });
+
+      // A failed call answers as a JSON-RPC error with the same code and body.
+      const failure = toolResultError(result);
+      if (failure) {
+        return sendErrorBody(res, failure, { jsonRpc: true, id: req.body.id });
       }
-      
       return res.json({
         jsonrpc: "2.0",
         result: result,
@@ -422,15 +407,368 @@ app.post("/gpt-action", async (req: Request, res: Response) => {
     });
     
   } catch (err: any) {
-    res.status(500).json({
-      jsonrpc: "2.0",
-      error: { 
-        code: -32603, 
-        message: "Internal server error", 
-        data: err?.message 
+    sendError(res, err, { jsonRpc: true, id: req.body?.id });
+  }
+});
+
+// Per-tool endpoints - one operationId per tool, plain arguments in the body
+app.post("/tools/:name", requireAuth(), async (req: Request, res: Response) => {
+  try {
+    const args = withIdempotencyKey(req, req.params.name, req.body);
+    const result = await callRunwayTool(req.params.name, args, {
+      runway: await runwayForRequest(req, res),
+      ledger: getTaskLedger(),
+      client: "rest",
+      identity: identityOf(res),
+      assets: getAssetStorage(),
+      uploads: getUploadStore(),
+      pipelines: getPipelineStore(),
+      idempotency: getIdempotencyStore(),
+      scheduler: getTaskScheduler(),
+      usage: getUsageLimiter(),
+      baseUrl: publicBaseUrl(req)
+    });
+    const failure = toolResultError(result);
+    res.status(failure ? ERROR_STATUS[failure.error] : 200).json(result);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+const jobContext = async (req: Request, res: Response) => ({
+  runway: await runwayForRequest(req, res),
+  ledger: getTaskLedger(),
+  client: "jobs",
+  identity: identityOf(res),
+  assets: getAssetStorage(),
+  uploads: getUploadStore(),
+  pipelines: getPipelineStore(),
+  idempotency: getIdempotencyStore(),
+  scheduler: getTaskScheduler(),
+  usage: getUsageLimiter(),
+  baseUrl: publicBaseUrl(req)
+});
+
+/**
+ * Async job API: start a generation and return 202 right away, then poll
+ * GET /jobs/:id or stream GET /jobs/:id/events. Job ids are Runway task ids,
+ * or queue ids while the server's task queue is full.
+ */
+app.post("/jobs", requireAuth(), async (req: Request, res: Response) => {
+  try {
+    const { tool, arguments: args = {} } = req.body ?? {};
+    const ctx = await jobContext(req, res);
+    const job = await createJob(tool, withIdempotencyKey(req, tool, args), ctx);
+    res
+      .status(202)
+      .setHeader("Location", `/jobs/${job.id}`)
+      .json({
+        ...job,
+        links: { self: `/jobs/${job.id}`, events: `/jobs/${job.id}/events` }
+      });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+const jobAuth = requireAuth({ tool: "runway.tasks.retrieve" });
+
+app.get("/jobs/:id", jobAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await getJob(await jobContext(req, res), req.params.id));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+app.get("/jobs/:id/events", jobAuth, async (req: Request, res: Response) => {
+  let ctx;
+  try {
+    ctx = await jobContext(req, res);
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+  const abort = new AbortController();
+  req.on("close", () => abort.abort());
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) =>
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  try {
+    const job = await watchJob(
+      ctx,
+      req.params.id,
+      (update, progress) => {
+        send("status", update);
+        send("progress", progress);
       },
-      id: req.body.id || null
+      { signal: abort.signal }
+    );
+    if (job && isTerminalStatus(job.status)) {
+      send("done", job);
+    }
+  } catch (err: any) {
+    send("error", errorBody(describeError(err)));
+  } finally {
+    res.end();
+  }
+});
+
+/**
+ * Generation history recorded by the task ledger. /tasks/search requires `text`.
+ */
+async function listTasks(req: Request, res: Response, requireText: boolean) {
+  const shape = requireText
+    ? { ...taskQueryShape, text: z.string().min(1, "text is required") }
+    : taskQueryShape;
+  const parsed = z.object(shape).safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid query", issues: parsed.error.issues });
+  }
+  try {
+    const identity = taskOwner({ identity: identityOf(res) });
+    res.json({ tasks: await getTaskLedger().list({ ...parsed.data, identity }) });
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message ?? String(err) });
+  }
+}
+
+app.get("/tasks", requireAuth({ tool: "runway.tasks.list" }), (req: Request, res: Response) =>
+  listTasks(req, res, false)
+);
+app.get(
+  "/tasks/search",
+  requireAuth({ tool: "runway.tasks.search" }),
+  (req: Request, res: Response) => listTasks(req, res, true)
+);
+
+/**
+ * The model capability registry. Public, like the tool schemas in the
+ * OpenAPI spec: the web UI builds its model and ratio choices from it.
+ */
+app.get("/models", (req: Request, res: Response) => {
+  const parsed = z
+    .object({ task: z.enum(MODEL_TASKS as [ModelTask, ...ModelTask[]]).optional() })
+    .safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid query", issues: parsed.error.issues });
+  }
+  res.json({ models: listModels(parsed.data.task) });
+});
+
+/**
+ * The Runway organization behind the caller's key: balance and tier limits,
+ * and credits used per model over a date range.
+ */
+app.get(
+  "/organization",
+  requireAuth({ tool: "runway.organization.get" }),
+  async (req: Request, res: Response) => {
+    try {
+      res.json(await getOrganization(await runwayForRequest(req, res)));
+    } catch (err: any) {
+      sendError(res, err);
+    }
+  }
+);
+app.get(
+  "/organization/usage",
+  requireAuth({ tool: "runway.organization.usage" }),
+  async (req: Request, res: Response) => {
+    const parsed = z
+      .object(organizationUsageShape)
+      .superRefine(refineUsageRange)
+      .safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid query", issues: parsed.error.issues });
+    }
+    try {
+      res.json(await getOrganizationUsage(await runwayForRequest(req, res), parsed.data));
+    } catch (err: any) {
+      sendError(res, err);
+    }
+  }
+);
+
+/**
+ * Each client's generation requests and credits against its limits. Needs
+ * the `admin` scope when auth is on.
+ */
+app.get("/admin/usage", requireAuth({ tool: "admin" }), async (_req: Request, res: Response) => {
+  try {
+    res.json({ clients: await getUsageLimiter().report() });
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message ?? String(err) });
+  }
+});
+
+/**
+ * Running and waiting tasks per Runway account. Needs the `admin` scope when
+ * auth is on.
+ */
+app.get("/admin/queue", requireAuth({ tool: "admin" }), (_req: Request, res: Response) => {
+  res.json({
+    maxConcurrency: schedulerSettings.maxConcurrency,
+    accounts: getTaskScheduler()?.snapshot() ?? []
+  });
+});
+
+/**
+ * Live MCP sessions: owner, client, requests in flight and expiry. Needs the
+ * `admin` scope when auth is on.
+ */
+app.get("/admin/sessions", requireAuth({ tool: "admin" }), (_req: Request, res: Response) => {
+  res.json({
+    maxSessions: sessionSettings.maxSessions,
+    idleTtlSeconds: sessionSettings.idleTtlMs / 1000,
+    maxAgeSeconds: sessionSettings.maxAgeMs / 1000,
+    sessions: sessions.list()
+  });
+});
+
+/**
+ * The key vault and the caller that owns keys in it, or undefined once a 404
+ * has been sent: the vault is off, or auth is (so nobody owns anything).
+ */
+function vaultFor(res: Response) {
+  const vault = getRunwayKeyVault();
+  const owner = ownerOf(res);
+  if (!vault || !owner) {
+    res.status(404).json({
+      error: vault
+        ? "Stored Runway keys need authentication on this server"
+        : "Stored Runway keys are not enabled on this server"
+    });
+    return undefined;
+  }
+  return { vault, owner };
+}
+
+/**
+ * Stored Runway keys. The key is encrypted at rest and never returned; use
+ * the `ref` in X-Runway-Key-Ref (or initialize _meta "runway/keyRef"). Needs
+ * auth and the `runway.keys` scope.
+ */
+app.post("/runway-keys", requireAuth({ tool: "runway.keys" }), async (req: Request, res: Response) => {
+  const found = vaultFor(res);
+  if (!found) return;
+  const { apiKey, name } = req.body ?? {};
+  if (typeof apiKey !== "string" || !apiKey.trim()) {
+    return res.status(400).json({ error: "apiKey is required" });
+  }
+  try {
+    const stored = await found.vault.save(apiKey.trim(), {
+      ...(typeof name === "string" ? { name } : {}),
+      owner: found.owner
     });
+    res.status(201).json(stored);
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message ?? String(err) });
+  }
+});
+
+app.get("/runway-keys", requireAuth({ tool: "runway.keys" }), async (_req: Request, res: Response) => {
+  const found = vaultFor(res);
+  if (!found) return;
+  try {
+    res.json({ keys: await found.vault.list(found.owner) });
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message ?? String(err) });
+  }
+});
+
+app.delete("/runway-keys/:ref", requireAuth({ tool: "runway.keys" }), async (req: Request, res: Response) => {
+  const found = vaultFor(res);
+  if (!found) return;
+  try {
+    if (!(await found.vault.delete(req.params.ref, found.owner))) {
+      return res.status(404).json({ error: `Unknown Runway key reference ${req.params.ref}` });
+    }
+    res.status(204).end();
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message ?? String(err) });
+  }
+});
+
+/**
+ * Mirrored outputs. Ids are content hashes, so responses never change.
+ */
+app.get("/assets/:id", async (req: Request, res: Response) => {
+  const storage = getAssetStorage();
+  if (!storage) {
+    return res.status(404).json({ error: "Asset storage is not enabled on this server" });
+  }
+  try {
+    const found = await storage.get(req.params.id);
+    if (!found) {
+      return res.status(404).json({ error: `Asset ${req.params.id} not found` });
+    }
+    const etag = `"${found.asset.sha256}"`;
+    res.setHeader("ETag", etag);
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    if (req.headers["if-none-match"] === etag) {
+      return res.status(304).end();
+    }
+    res.setHeader("Content-Type", found.asset.contentType);
+    res.setHeader("Content-Length", String(found.body.length));
+    res.send(found.body);
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message ?? String(err) });
+  }
+});
+
+/**
+ * Source files for generation: POST multipart/form-data with a `file` field,
+ * then pass the returned `ref` (upload://<id>) as promptImage or video.
+ */
+const uploadParser = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    files: 1,
+    fileSize: Math.max(uploadLimits.maxImageBytes, uploadLimits.maxVideoBytes)
+  }
+}).single("file");
+
+app.post("/uploads", requireAuth({ tool: "runway.upload" }), (req: Request, res: Response) => {
+  uploadParser(req, res, async (parseErr: any) => {
+    if (parseErr) {
+      const status = parseErr.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).json({ error: parseErr.message });
+    }
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: "Expected a multipart `file` field" });
+    }
+    try {
+      const upload = await getUploadStore().save(file.buffer, {
+        filename: file.originalname,
+        contentType: file.mimetype
+      });
+      const view = describeUpload(upload, publicBaseUrl(req));
+      res.status(201).setHeader("Location", `/uploads/${upload.id}`).json(view);
+    } catch (err: any) {
+      sendError(res, err);
+    }
+  });
+});
+
+app.get("/uploads/:id", async (req: Request, res: Response) => {
+  try {
+    const found = await getUploadStore().get(req.params.id);
+    if (!found) {
+      return res.status(404).json({ error: `Upload ${req.params.id} not found or expired` });
+    }
+    res.setHeader("Content-Type", found.upload.contentType);
+    res.setHeader("Content-Length", String(found.body.length));
+    res.setHeader("Expires", new Date(found.upload.expiresAt).toUTCString());
+    res.send(found.body);
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message ?? String(err) });
   }
 });
 
@@ -442,106 +780,81 @@ app.get("/", (req, res) => {
     res.json({ 
       status: "ok", 
       message: "Runway MCP Server running",
-      endpoints: ["/mcp", "/gpt-action", "/openapi.yaml", "/index.html (web UI)"]
+      endpoints: [
+        "/mcp",
+        "/gpt-action",
+        "/tools/:name",
+        "/jobs",
+        "/tasks",
+        "/models",
+        "/organization",
+        "/uploads",
+        "/assets/:id",
+        "/admin/usage",
+        "/runway-keys",
+        "/openapi.yaml",
+        "/openapi.json",
+        "/index.html (web UI)"
+      ]
     });
   }
 });
 
-// Serve OpenAPI spec for GPT Actions
+/**
+ * Public base URL for generated specs. PUBLIC_BASE_URL wins; otherwise derive
+ * it from the (possibly proxied) incoming request.
+ */
+function publicBaseUrl(req: Request): string {
+  if (process.env.PUBLIC_BASE_URL && process.env.PUBLIC_BASE_URL.trim() !== "") {
+    return process.env.PUBLIC_BASE_URL.trim().replace(/\/+$/, "");
+  }
+  const proto =
+    (req.headers["x-forwarded-proto"] as string | undefined)?.split(",")[0].trim() ||
+    req.protocol;
+  const host =
+    (req.headers["x-forwarded-host"] as string | undefined)?.split(",")[0].trim() ||
+    req.headers.host;
+  return `${proto}://${host}`;
+}
+
+function openApiFor(req: Request) {
+  const { authenticators, apiKeys, oauth } = getAuthSettings();
+  return buildOpenApiSpec({
+    serverUrl: publicBaseUrl(req),
+    operations: req.query.operations === "per-tool" ? "per-tool" : "single",
+    ...(authenticators.length ? { auth: { apiKeys, ...(oauth ? { oauth } : {}) } } : {})
+  });
+}
+
+// OAuth 2.0 protected resource metadata (RFC 9728), so MCP clients can find
+// the authorization server from the 401's WWW-Authenticate header.
+app.get("/.well-known/oauth-protected-resource", (req, res) => {
+  const { oauth } = getAuthSettings();
+  if (!oauth?.issuer) {
+    return res.status(404).json({ error: "OAuth is not configured on this server" });
+  }
+  res.json({
+    resource: publicBaseUrl(req),
+    authorization_servers: [oauth.issuer],
+    bearer_methods_supported: ["header"]
+  });
+});
+
+// Serve OpenAPI spec for GPT Actions, generated from the tool catalog.
+// ?operations=per-tool exposes one operationId per tool instead of callRunwayMCP.
 app.get("/openapi.yaml", (req, res) => {
   res.setHeader('Content-Type', 'application/x-yaml');
-  res.send(`openapi: 3.1.0
-info:
-  title: Runway MCP Server
-  description: Generate images and videos using Runway ML via MCP protocol
-  version: 1.0.0
-servers:
-  - url: https://runway-generator-liard.vercel.app
-
-paths:
-  /mcp:
-    post:
-      operationId: callRunwayMCP
-      summary: Call Runway MCP server methods
-      description: Execute Runway ML operations through MCP protocol
-      requestBody:
-        required: true
-        content:
-          application/json:
-            schema:
-              type: object
-              properties:
-                jsonrpc:
-                  type: string
-                  enum: ["2.0"]
-                  description: JSON-RPC version
-                id:
-                  type: string
-                  description: Unique request identifier
-                method:
-                  type: string
-                  enum: ["tools/call"]
-                  description: MCP method to call
-                params:
-                  type: object
-                  properties:
-                    name:
-                      type: string
-                      enum: 
-                        - "runway.text_to_image"
-                        - "runway.image_to_video"  
-                        - "runway.video_upscale"
-                        - "runway.tasks.retrieve"
-                        - "runway.tasks.cancel"
-                      description: Runway tool to execute
-                    arguments:
-                      type: object
-                      description: Tool-specific arguments
-                      additionalProperties: true
-                  required: ["name", "arguments"]
-              required: ["jsonrpc", "id", "method", "params"]
-            examples:
-              text_to_image:
-                summary: Generate an image from text
-                value:
-                  jsonrpc: "2.0"
-                  id: "1"
-                  method: "tools/call"
-                  params:
-                    name: "runway.text_to_image"
-                    arguments:
-                      promptText: "a beautiful sunset over mountains"
-                      model: "gen4_image"
-                      ratio: "1024:1024"
-                      wait: true
-              image_to_video:
-                summary: Generate a video from an image
-                value:
-                  jsonrpc: "2.0"
-                  id: "2"
-                  method: "tools/call"
-                  params:
-                    name: "runway.image_to_video"
-                    arguments:
-                      promptImage: "https://example.com/image.jpg"
-                      promptText: "camera pans left, gentle movement"
-                      model: "gen4_turbo"
-                      wait: true
-      responses:
-        "200":
-          description: MCP response with generated media
-          content:
-            text/event-stream:
-              schema:
-                type: string
-                description: Server-sent events containing MCP response
-        "400":
-          description: Invalid request format
-        "500":
-          description: Server error`);
+  res.send(YAML.stringify(openApiFor(req)));
+});
+
+app.get("/openapi.json", (req, res) => {
+  res.json(openApiFor(req));
 });
 
 const port = Number(process.env.PORT || 3030);
 app.listen(port, () => {
   console.log(`Runway MCP Streamable HTTP server listening on :${port}`);
+  if (getAuthSettings().authenticators.length === 0) {
+    console.warn("Authentication is off; set API_KEYS or OAUTH_* to require bearer tokens.");
+  }
 });
\ No newline at end of file
@@ -0,0 +1,291 @@
+// File: src/assets.ts
+import { createHash, createHmac } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Metadata for a mirrored copy of a Runway output.
+ */
+export interface StoredAsset {
+  id: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  sourceUrl: string;
+  taskId?: string;
+  createdAt: string;
+}
+
+/**
+ * Durable storage for mirrored outputs. Ids are content-addressed, so a put
+ * of an existing id may be skipped.
+ */
+export interface AssetStorage {
+  put(asset: StoredAsset, body: Buffer): Promise<void>;
+  get(id: string): Promise<{ asset: StoredAsset; body: Buffer } | undefined>;
+}
+
+// Asset ids are generated here; anything else is rejected before touching storage.
+const ASSET_ID = /^[a-f0-9]{32}(\.[a-z0-9]{1,5})?$/;
+
+export function isAssetId(id: string): boolean {
+  return ASSET_ID.test(id);
+}
+
+/**
+ * Assets as files under a directory, with a JSON sidecar for metadata.
+ */
+export class LocalAssetStorage implements AssetStorage {
+  constructor(private readonly dir: string) {}
+
+  async put(asset: StoredAsset, body: Buffer): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const file = join(this.dir, asset.id);
+    await writeFile(`${file}.tmp`, body);
+    await rename(`${file}.tmp`, file);
+    await writeFile(`${file}.json`, JSON.stringify(asset, null, 2));
+  }
+
+  async get(id: string): Promise<{ asset: StoredAsset; body: Buffer } | undefined> {
+    if (!isAssetId(id)) return undefined;
+    const file = join(this.dir, id);
+    try {
+      const [meta, body] = await Promise.all([readFile(`${file}.json`, "utf8"), readFile(file)]);
+      return { asset: JSON.parse(meta) as StoredAsset, body };
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+}
+
+export interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string;
+}
+
+const sha256Hex = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+
+/**
+ * Assets in an S3-compatible bucket (AWS, R2, MinIO, ...), path-style,
+ * signed with AWS Signature V4. Metadata travels as x-amz-meta-* headers.
+ */
+export class S3AssetStorage implements AssetStorage {
+  constructor(private readonly config: S3Config) {}
+
+  private async request(
+    method: "GET" | "PUT",
+    id: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const { endpoint, bucket, region, accessKeyId, secretAccessKey, prefix = "assets/" } =
+      this.config;
+    const url = new URL(`${endpoint.replace(/\/+$/, "")}/${bucket}/${prefix}${id}`);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const day = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? "");
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...Object.fromEntries(Object.entries(extraHeaders).map(([k, v]) => [k.toLowerCase(), v]))
+    };
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname.split("/").map(encodeURIComponent).join("/"),
+      "",
+      ...names.map((n) => `${n}:${headers[n].trim()}`),
+      "",
+      names.join(";"),
+      payloadHash
+    ].join("\n");
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join(
+      "\n"
+    );
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${secretAccessKey}`, day), region), "s3"),
+      "aws4_request"
+    );
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const { host: _host, ...sendHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sendHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`
+      },
+      ...(body ? { body: new Uint8Array(body) } : {})
+    });
+  }
+
+  async put(asset: StoredAsset, body: Buffer): Promise<void> {
+    const res = await this.request("PUT", asset.id, body, {
+      "content-type": asset.contentType,
+      "x-amz-meta-asset": Buffer.from(JSON.stringify(asset)).toString("base64")
+    });
+    if (!res.ok) {
+      throw new Error(`S3 PUT ${asset.id} failed: ${res.status} ${await res.text()}`);
+    }
+  }
+
+  async get(id: string): Promise<{ asset: StoredAsset; body: Buffer } | undefined> {
+    if (!isAssetId(id)) return undefined;
+    const res = await this.request("GET", id);
+    if (res.status === 404) return undefined;
+    if (!res.ok) {
+      throw new Error(`S3 GET ${id} failed: ${res.status}`);
+    }
+    const meta = res.headers.get("x-amz-meta-asset");
+    const body = Buffer.from(await res.arrayBuffer());
+    const asset: StoredAsset = meta
+      ? (JSON.parse(Buffer.from(meta, "base64").toString("utf8")) as StoredAsset)
+      : {
+          id,
+          contentType: res.headers.get("content-type") ?? "application/octet-stream",
+          size: body.length,
+          sha256: sha256Hex(body),
+          sourceUrl: "",
+          createdAt: new Date().toISOString()
+        };
+    return { asset, body };
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "video/quicktime": ".mov"
+};
+
+const MAX_ASSET_BYTES = Number(process.env.ASSET_MAX_BYTES || 200 * 1024 * 1024);
+
+/**
+ * Download a (signed, expiring) Runway output and store a durable copy.
+ */
+export async function mirrorAsset(
+  storage: AssetStorage,
+  sourceUrl: string,
+  taskId?: string
+): Promise<StoredAsset> {
+  const res = await fetch(sourceUrl);
+  if (!res.ok) {
+    throw new Error(`Download of ${sourceUrl} failed: ${res.status}`);
+  }
+  const declared = Number(res.headers.get("content-length") || 0);
+  if (declared > MAX_ASSET_BYTES) {
+    throw new Error(`Output is ${declared} bytes; ASSET_MAX_BYTES is ${MAX_ASSET_BYTES}`);
+  }
+  const body = Buffer.from(await res.arrayBuffer());
+  if (body.length > MAX_ASSET_BYTES) {
+    throw new Error(`Output is ${body.length} bytes; ASSET_MAX_BYTES is ${MAX_ASSET_BYTES}`);
+  }
+
+  const contentType = (res.headers.get("content-type") ?? "application/octet-stream")
+    .split(";")[0]
+    .trim();
+  const sha256 = sha256Hex(body);
+  const asset: StoredAsset = {
+    id: `${sha256.slice(0, 32)}${EXTENSIONS[contentType] ?? ""}`,
+    contentType,
+    size: body.length,
+    sha256,
+    sourceUrl,
+    ...(taskId ? { taskId } : {}),
+    createdAt: new Date().toISOString()
+  };
+  await storage.put(asset, body);
+  return asset;
+}
+
+/**
+ * A Runway output next to its stable copy (or the reason there is none).
+ */
+export interface MirroredOutput {
+  sourceUrl: string;
+  url?: string;
+  assetId?: string;
+  contentType?: string;
+  size?: number;
+  sha256?: string;
+  error?: string;
+}
+
+/**
+ * Mirror every output of a task. A failed copy is reported per output rather
+ * than failing the whole call; the original URL still works for a while.
+ */
+export function mirrorOutputs(
+  storage: AssetStorage,
+  urls: string[],
+  { taskId, baseUrl = "" }: { taskId?: string; baseUrl?: string }
+): Promise<MirroredOutput[]> {
+  return Promise.all(
+    urls.map(async (sourceUrl): Promise<MirroredOutput> => {
+      try {
+        const asset = await mirrorAsset(storage, sourceUrl, taskId);
+        return {
+          sourceUrl,
+          url: `${baseUrl}/assets/${asset.id}`,
+          assetId: asset.id,
+          contentType: asset.contentType,
+          size: asset.size,
+          sha256: asset.sha256
+        };
+      } catch (err: unknown) {
+        return { sourceUrl, error: (err as Error).message };
+      }
+    })
+  );
+}
+
+let sharedStorage: AssetStorage | null | undefined;
+
+/**
+ * The configured backend, or null when mirroring is off.
+ * ASSET_STORAGE=local (ASSET_DIR, default data/assets) or
+ * ASSET_STORAGE=s3 (ASSET_S3_ENDPOINT, ASSET_S3_BUCKET, ASSET_S3_REGION,
+ * ASSET_S3_ACCESS_KEY_ID, ASSET_S3_SECRET_ACCESS_KEY).
+ */
+export function getAssetStorage(): AssetStorage | null {
+  if (sharedStorage !== undefined) return sharedStorage;
+  const kind = process.env.ASSET_STORAGE?.trim().toLowerCase();
+  if (kind === "local") {
+    sharedStorage = new LocalAssetStorage(process.env.ASSET_DIR || "data/assets");
+  } else if (kind === "s3") {
+    const required = [
+      "ASSET_S3_ENDPOINT",
+      "ASSET_S3_BUCKET",
+      "ASSET_S3_ACCESS_KEY_ID",
+      "ASSET_S3_SECRET_ACCESS_KEY"
+    ];
+    const missing = required.filter((k) => !process.env[k]);
+    if (missing.length) {
+      throw new Error(`ASSET_STORAGE=s3 requires ${missing.join(", ")}`);
+    }
+    sharedStorage = new S3AssetStorage({
+      endpoint: process.env.ASSET_S3_ENDPOINT!,
+      bucket: process.env.ASSET_S3_BUCKET!,
+      region: process.env.ASSET_S3_REGION || "us-east-1",
+      accessKeyId: process.env.ASSET_S3_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.ASSET_S3_SECRET_ACCESS_KEY!
+    });
+  } else {
+    sharedStorage = null;
+  }
+  return sharedStorage;
+}
@@ -0,0 +1,417 @@
+// File: src/auth.ts
+import {
+  constants,
+  createHash,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+  type KeyObject
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { ClientLimits } from "./usage.js";
+
+export type AuthMethod = "api-key" | "oauth";
+
+/**
+ * An authenticated caller. Scopes are tool names or patterns such as
+ * "runway.tasks.*" or "*".
+ */
+export interface Identity {
+  /** The API key's name, or the OAuth token's subject. */
+  subject: string;
+  method: AuthMethod;
+  scopes: string[];
+  /** Per-client overrides of the deployment's rate limit and budgets. */
+  limits?: ClientLimits;
+}
+
+/**
+ * Stable key for an identity, e.g. "api-key:ci" or "oauth:user-42".
+ */
+export function principal(identity: Identity): string {
+  return `${identity.method}:${identity.subject}`;
+}
+
+/**
+ * Missing or rejected credentials. `status` is the HTTP status to answer with.
+ */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 401 | 403 = 401
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * One way of turning a bearer token into an identity.
+ */
+export interface Authenticator {
+  /** The identity behind the token, or undefined when this scheme rejects it. */
+  authenticate(token: string): Promise<Identity | undefined>;
+}
+
+/**
+ * A static API key. Give either the key itself or its hex SHA-256.
+ */
+export interface ApiKey extends ClientLimits {
+  name: string;
+  key?: string;
+  sha256?: string;
+  /** Tools this key may call; defaults to all of them. */
+  scopes?: string[];
+}
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+export class ApiKeyAuthenticator implements Authenticator {
+  private readonly keys: {
+    name: string;
+    digest: Buffer;
+    scopes: string[];
+    limits: ClientLimits;
+  }[];
+
+  constructor(keys: ApiKey[]) {
+    this.keys = keys.map((k) => {
+      if (!k.name || !(k.key || k.sha256)) {
+        throw new Error("Every API key needs a name and a key or sha256");
+      }
+      return {
+        name: k.name,
+        digest: k.key ? digest(k.key) : Buffer.from(k.sha256!, "hex"),
+        scopes: k.scopes ?? ["*"],
+        limits: {
+          rpm: k.rpm,
+          dailyCredits: k.dailyCredits,
+          monthlyCredits: k.monthlyCredits,
+          priority: k.priority
+        }
+      };
+    });
+  }
+
+  async authenticate(token: string): Promise<Identity | undefined> {
+    // Comparing fixed-length digests keeps the check constant-time.
+    const presented = digest(token);
+    const match = this.keys.find(
+      (k) => k.digest.length === presented.length && timingSafeEqual(k.digest, presented)
+    );
+    return (
+      match && {
+        subject: match.name,
+        method: "api-key",
+        scopes: match.scopes,
+        limits: match.limits
+      }
+    );
+  }
+}
+
+export interface OAuthConfig {
+  /** Expected `iss`; also where the JWKS is looked up by default. */
+  issuer?: string;
+  /** Expected `aud`, if tokens carry one. */
+  audience?: string;
+  jwksUrl?: string;
+  /** RFC 7662 endpoint for opaque (non-JWT) tokens. */
+  introspectionUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  /** Scopes for tokens that carry no tool scope of their own. */
+  defaultScopes: string[];
+}
+
+interface Claims {
+  sub?: string;
+  client_id?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  scope?: string;
+  scp?: string[];
+}
+
+// Only scopes that name tools or "admin" grant access; openid, profile etc. are ignored.
+const TOOL_SCOPE = /^(\*$|admin$|runway\.)/;
+const JWKS_TTL_MS = 10 * 60 * 1000;
+// An unknown kid refetches the JWKS at most this often.
+const JWKS_REFETCH_MS = 30 * 1000;
+const INTROSPECTION_TTL_MS = 60 * 1000;
+const CLOCK_SKEW_S = 60;
+
+const VERIFIERS: Record<string, { hash: string | null; options?: object }> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: {
+    hash: "sha256",
+    options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 }
+  },
+  ES256: { hash: "sha256", options: { dsaEncoding: "ieee-p1363" } },
+  ES384: { hash: "sha384", options: { dsaEncoding: "ieee-p1363" } },
+  EdDSA: { hash: null }
+};
+
+const base64url = (s: string) => Buffer.from(s, "base64url");
+
+/**
+ * OAuth 2.0 access tokens from an external authorization server: JWTs are
+ * verified against its JWKS, anything else goes to token introspection.
+ */
+export class OAuthAuthenticator implements Authenticator {
+  private jwks: { keys: Map<string, KeyObject>; fetchedAt: number } | undefined;
+  private jwksFetch: Promise<void> | undefined;
+  private readonly introspected = new Map<string, { identity?: Identity; until: number }>();
+
+  constructor(private readonly config: OAuthConfig) {}
+
+  private get jwksUrl(): string | undefined {
+    if (this.config.jwksUrl) return this.config.jwksUrl;
+    return this.config.issuer && `${this.config.issuer.replace(/\/+$/, "")}/.well-known/jwks.json`;
+  }
+
+  async authenticate(token: string): Promise<Identity | undefined> {
+    const parts = token.split(".");
+    if (parts.length === 3 && this.jwksUrl) {
+      return this.verifyJwt(parts as [string, string, string]);
+    }
+    if (this.config.introspectionUrl) {
+      return this.introspect(token);
+    }
+    return undefined;
+  }
+
+  private async signingKey(kid: string | undefined): Promise<KeyObject | undefined> {
+    const find = () =>
+      kid ? this.jwks?.keys.get(kid) : this.jwks?.keys.values().next().value;
+    const age = this.jwks ? Date.now() - this.jwks.fetchedAt : Infinity;
+    // Unknown kids trigger a refetch so key rotation needs no restart, but
+    // tokens with made-up kids must not each cost a request to the issuer.
+    if (age > JWKS_TTL_MS || (!find() && age > JWKS_REFETCH_MS)) {
+      this.jwksFetch ??= this.fetchJwks().finally(() => {
+        this.jwksFetch = undefined;
+      });
+      await this.jwksFetch;
+    }
+    return find();
+  }
+
+  private async fetchJwks(): Promise<void> {
+    const res = await fetch(this.jwksUrl!);
+    if (!res.ok) {
+      throw new Error(`Fetching JWKS from ${this.jwksUrl} failed: ${res.status}`);
+    }
+    const { keys = [] } = (await res.json()) as { keys?: (JsonWebKey & { kid?: string })[] };
+    this.jwks = {
+      keys: new Map(
+        keys
+          .filter((k) => k.use !== "enc")
+          .map((k, i) => [k.kid ?? String(i), createPublicKey({ key: k, format: "jwk" })])
+      ),
+      fetchedAt: Date.now()
+    };
+  }
+
+  private async verifyJwt([header, payload, signature]: [string, string, string]) {
+    let alg: string, kid: string | undefined, claims: Claims;
+    try {
+      ({ alg, kid } = JSON.parse(base64url(header).toString("utf8")));
+      claims = JSON.parse(base64url(payload).toString("utf8"));
+    } catch {
+      return undefined;
+    }
+    const verifier = VERIFIERS[alg];
+    const key = verifier && (await this.signingKey(kid));
+    if (!key) return undefined;
+    const valid = verify(
+      verifier.hash,
+      Buffer.from(`${header}.${payload}`),
+      { key, ...verifier.options },
+      base64url(signature)
+    );
+    if (!valid) return undefined;
+
+    const now = Date.now() / 1000;
+    const { issuer, audience } = this.config;
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (
+      typeof claims.exp !== "number" ||
+      claims.exp + CLOCK_SKEW_S < now ||
+      (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_S > now) ||
+      (issuer && claims.iss !== issuer) ||
+      (audience && !audiences.includes(audience))
+    ) {
+      return undefined;
+    }
+    return this.toIdentity(claims);
+  }
+
+  private async introspect(token: string): Promise<Identity | undefined> {
+    const cacheKey = digest(token).toString("hex");
+    const cached = this.introspected.get(cacheKey);
+    if (cached && cached.until > Date.now()) return cached.identity;
+
+    const { introspectionUrl, clientId, clientSecret } = this.config;
+    const res = await fetch(introspectionUrl!, {
+      method: "POST",
+      headers: {
+        "content-type": "application/x-www-form-urlencoded",
+        accept: "application/json",
+        ...(clientId
+          ? {
+              authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret ?? ""}`).toString("base64")}`
+            }
+          : {})
+      },
+      body: new URLSearchParams({ token, token_type_hint: "access_token" })
+    });
+    if (!res.ok) {
+      throw new Error(`Token introspection failed: ${res.status}`);
+    }
+    const claims = (await res.json()) as Claims & { active?: boolean };
+    const identity = claims.active ? this.toIdentity(claims) : undefined;
+
+    const expires = typeof claims.exp === "number" ? claims.exp * 1000 : Infinity;
+    for (const [key, entry] of this.introspected) {
+      if (entry.until <= Date.now()) this.introspected.delete(key);
+    }
+    this.introspected.set(cacheKey, {
+      identity,
+      until: Math.min(expires, Date.now() + INTROSPECTION_TTL_MS)
+    });
+    return identity;
+  }
+
+  private toIdentity(claims: Claims): Identity {
+    const granted = typeof claims.scope === "string" ? claims.scope.split(" ") : claims.scp ?? [];
+    const scopes = granted.filter((s) => TOOL_SCOPE.test(s));
+    return {
+      subject: claims.sub ?? claims.client_id ?? "oauth-client",
+      method: "oauth",
+      scopes: scopes.length ? scopes : this.config.defaultScopes
+    };
+  }
+}
+
+/**
+ * Whether an identity was granted the `admin` scope. Only the scope by name
+ * counts: `*` covers every tool, not the admin routes or other callers' tasks.
+ */
+export function isAdmin(identity: Identity): boolean {
+  return identity.scopes.includes("admin");
+}
+
+/**
+ * Whether an identity may call a tool (or, as "admin", the admin routes).
+ * Without an identity (auth is off) everything is allowed.
+ */
+export function canUseTool(identity: Identity | undefined, toolName: string): boolean {
+  if (!identity) return true;
+  if (toolName === "admin") return isAdmin(identity);
+  return identity.scopes.some(
+    (s) =>
+      s === "*" || s === toolName || (s.endsWith(".*") && toolName.startsWith(s.slice(0, -1)))
+  );
+}
+
+/**
+ * URLs a client needs to run the OAuth authorization-code flow, as published
+ * in the OpenAPI spec and protected-resource metadata.
+ */
+export interface OAuthFlow {
+  issuer?: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+}
+
+export interface AuthSettings {
+  authenticators: Authenticator[];
+  apiKeys: boolean;
+  oauth?: OAuthFlow;
+}
+
+function loadApiKeys(): ApiKey[] {
+  const raw = process.env.API_KEYS_FILE
+    ? readFileSync(process.env.API_KEYS_FILE, "utf8")
+    : process.env.API_KEYS;
+  if (!raw?.trim()) return [];
+  const keys = JSON.parse(raw) as unknown;
+  if (!Array.isArray(keys)) {
+    throw new Error("API_KEYS must be a JSON array of { name, key | sha256, scopes }");
+  }
+  return keys as ApiKey[];
+}
+
+let sharedSettings: AuthSettings | undefined;
+
+/**
+ * Authentication configured for this deployment. Static keys come from
+ * API_KEYS (JSON) or API_KEYS_FILE; OAuth from OAUTH_ISSUER / OAUTH_JWKS_URL /
+ * OAUTH_INTROSPECTION_URL. With neither, auth is off. OAUTH_AUTHORIZATION_URL
+ * and OAUTH_TOKEN_URL are only published, for clients that run the login flow.
+ */
+export function getAuthSettings(): AuthSettings {
+  if (sharedSettings) return sharedSettings;
+  const env = process.env;
+  const authenticators: Authenticator[] = [];
+
+  const keys = loadApiKeys();
+  if (keys.length) authenticators.push(new ApiKeyAuthenticator(keys));
+
+  const oauth = Boolean(env.OAUTH_ISSUER || env.OAUTH_JWKS_URL || env.OAUTH_INTROSPECTION_URL);
+  if (oauth) {
+    authenticators.push(
+      new OAuthAuthenticator({
+        issuer: env.OAUTH_ISSUER || undefined,
+        audience: env.OAUTH_AUDIENCE || undefined,
+        jwksUrl: env.OAUTH_JWKS_URL || undefined,
+        introspectionUrl: env.OAUTH_INTROSPECTION_URL || undefined,
+        clientId: env.OAUTH_CLIENT_ID || undefined,
+        clientSecret: env.OAUTH_CLIENT_SECRET || undefined,
+        defaultScopes: (env.OAUTH_DEFAULT_SCOPES || "runway.*").split(/[\s,]+/).filter(Boolean)
+      })
+    );
+  }
+
+  sharedSettings = {
+    authenticators,
+    apiKeys: keys.length > 0,
+    ...(oauth && env.OAUTH_AUTHORIZATION_URL && env.OAUTH_TOKEN_URL
+      ? {
+          oauth: {
+            ...(env.OAUTH_ISSUER ? { issuer: env.OAUTH_ISSUER } : {}),
+            authorizationUrl: env.OAUTH_AUTHORIZATION_URL,
+            tokenUrl: env.OAUTH_TOKEN_URL
+          }
+        }
+      : {})
+  };
+  return sharedSettings;
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer ...` header.
+ */
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? "");
+  return match?.[1];
+}
+
+/**
+ * Resolve a bearer token against every configured scheme in turn.
+ */
+export async function authenticate(token: string | undefined): Promise<Identity> {
+  if (!token) {
+    throw new AuthError("Missing bearer token");
+  }
+  for (const authenticator of getAuthSettings().authenticators) {
+    const identity = await authenticator.authenticate(token);
+    if (identity) return identity;
+  }
+  throw new AuthError("Invalid or expired token");
+}
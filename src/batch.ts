@@ -0,0 +1,178 @@
+// File: src/batch.ts
+import { z } from "zod";
+import type { ErrorCode } from "./errors.js";
+
+const MAX_ITEMS = Number(process.env.BATCH_MAX_ITEMS || 50);
+const MAX_CONCURRENCY = Number(process.env.BATCH_MAX_CONCURRENCY || 8);
+
+const generationSpec = z.object({
+  tool: z.string().min(1).describe("Generation tool name, e.g. runway.text_to_image."),
+  arguments: z.record(z.unknown()).default({}).describe("Arguments for that tool.")
+});
+
+export type GenerationSpec = z.infer<typeof generationSpec>;
+
+/**
+ * Arguments of runway.batch: explicit specs, or a base spec swept over axes.
+ */
+export const batchShape = {
+  items: z
+    .array(generationSpec)
+    .min(1)
+    .optional()
+    .describe("Generation specs to run. Use this or base + sweep."),
+  base: generationSpec
+    .optional()
+    .describe("Spec that every sweep combination starts from."),
+  sweep: z
+    .object({
+      seeds: z.array(z.number().int()).min(1).optional(),
+      ratios: z.array(z.string()).min(1).optional(),
+      models: z.array(z.string()).min(1).optional()
+    })
+    .optional()
+    .describe("Axes to sweep base over; every combination becomes one item."),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CONCURRENCY)
+    .default(Math.min(3, MAX_CONCURRENCY))
+    .describe(`How many items run at once (max ${MAX_CONCURRENCY}).`),
+  wait: z
+    .boolean()
+    .default(true)
+    .describe("If true, wait for every item to finish; otherwise return task ids."),
+  timeoutMs: z.number().int().optional().describe("Per-item wait timeout (ms).")
+};
+
+export type BatchArgs = z.infer<z.ZodObject<typeof batchShape>>;
+
+/**
+ * A sweep only expands base, so it cannot be combined with items.
+ */
+export function refineBatchArgs(
+  { items, sweep }: Record<string, unknown>,
+  ctx: z.RefinementCtx
+): void {
+  if (items !== undefined && sweep !== undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["sweep"],
+      message: "sweep only applies to base; pass items, or base with sweep"
+    });
+  }
+}
+
+/**
+ * One row of the batch result table.
+ */
+export interface BatchItemResult {
+  index: number;
+  tool: string;
+  /** The swept or distinguishing arguments for this row. */
+  params: Record<string, unknown>;
+  taskId?: string;
+  status: string;
+  output: string[];
+  error?: string;
+  /** Stable error code of a failed row (see errors.ts). */
+  code?: ErrorCode;
+  retryable?: boolean;
+}
+
+/**
+ * Turn runway.batch arguments into the concrete list of specs to run.
+ * Throws with a user-facing message when the request is malformed.
+ */
+export function expandBatch({ items, base, sweep }: BatchArgs): GenerationSpec[] {
+  if (items && base) {
+    throw new Error("Pass either items or base (+ sweep), not both");
+  }
+  let specs: GenerationSpec[];
+  if (items) {
+    specs = items;
+  } else if (base) {
+    const axes: [string, unknown[]][] = [
+      ["seed", sweep?.seeds ?? []],
+      ["ratio", sweep?.ratios ?? []],
+      ["model", sweep?.models ?? []]
+    ];
+    specs = axes
+      .filter(([, values]) => values.length > 0)
+      .reduce<GenerationSpec[]>(
+        (acc, [key, values]) =>
+          acc.flatMap((spec) =>
+            values.map((value) => ({ ...spec, arguments: { ...spec.arguments, [key]: value } }))
+          ),
+        [base]
+      );
+  } else {
+    throw new Error("Pass items, or base with sweep axes");
+  }
+  if (specs.length > MAX_ITEMS) {
+    throw new Error(`Batch has ${specs.length} items; the limit is ${MAX_ITEMS}`);
+  }
+  return specs;
+}
+
+/**
+ * Arguments worth showing in a result row: whatever differs between items
+ * (falls back to promptText/model/ratio/seed when every item is the same).
+ */
+export function distinguishingParams(specs: GenerationSpec[]): Record<string, unknown>[] {
+  const keys = new Set(specs.flatMap((s) => Object.keys(s.arguments)));
+  const varying = [...keys].filter(
+    (k) => new Set(specs.map((s) => JSON.stringify(s.arguments[k]))).size > 1
+  );
+  const shown = varying.length
+    ? varying
+    : ["promptText", "model", "ratio", "seed"].filter((k) => keys.has(k));
+  return specs.map((s) =>
+    Object.fromEntries(shown.filter((k) => k in s.arguments).map((k) => [k, s.arguments[k]]))
+  );
+}
+
+/**
+ * Map over items with at most `limit` in flight, preserving order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Markdown table of batch rows, for clients that only render text.
+ */
+export function formatBatchTable(rows: BatchItemResult[]): string {
+  const cell = (v: unknown) => String(v ?? "").replace(/\|/g, "\\|").replace(/\n/g, " ");
+  const line = (cells: unknown[]) => `| ${cells.map(cell).join(" | ")} |`;
+  return [
+    line(["#", "tool", "params", "task", "status", "outputs"]),
+    line(["---", "---", "---", "---", "---", "---"]),
+    ...rows.map((r) =>
+      line([
+        r.index + 1,
+        r.tool,
+        Object.entries(r.params)
+          .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`)
+          .join(", "),
+        r.taskId ?? "",
+        r.error ? `${r.status}: ${r.error}` : r.status,
+        r.output.join(" ")
+      ])
+    )
+  ].join("\n");
+}
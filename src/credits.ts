@@ -0,0 +1,113 @@
+// File: src/credits.ts
+import { findModel } from "./models.js";
+
+/**
+ * Runway credits charged by one model: per output image, or per second of
+ * video. `byResolution` prices images by the resolution class of their ratio.
+ */
+export interface ModelPrice {
+  perOutput?: number;
+  byResolution?: Record<string, number>;
+  perSecond?: number;
+  /** Seconds assumed when the request does not say (e.g. an upscale's input length). */
+  defaultSeconds?: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  gen4_image: { byResolution: { "720p": 5, "1080p": 8 } },
+  gen4_image_turbo: { perOutput: 2 },
+  "gemini_2.5_flash": { perOutput: 5 },
+  gen4_turbo: { perSecond: 5, defaultSeconds: 10 },
+  gen3a_turbo: { perSecond: 5, defaultSeconds: 10 },
+  veo3: { perSecond: 40, defaultSeconds: 8 },
+  gen4_aleph: { perSecond: 15, defaultSeconds: 5 },
+  // Billed by the length of the driving performance (3-30s); assume the longest.
+  act_two: { perSecond: 5, defaultSeconds: 30 },
+  upscale_v1: { perSecond: 2, defaultSeconds: 10 }
+};
+
+// Image ratios Runway renders at 720p; every other ratio is 1080p.
+const RATIOS_720P = new Set([
+  "1280:720",
+  "720:1280",
+  "720:720",
+  "960:720",
+  "720:960",
+  "1680:720",
+  "1344:768",
+  "768:1344",
+  "1184:864",
+  "864:1184",
+  "1536:672"
+]);
+
+let prices: Record<string, ModelPrice> | undefined;
+
+/**
+ * The price table: built-in list prices, overridden per model by
+ * CREDIT_PRICES (JSON object of model → ModelPrice).
+ */
+export function getCreditPrices(): Record<string, ModelPrice> {
+  prices ??= {
+    ...DEFAULT_PRICES,
+    ...(process.env.CREDIT_PRICES
+      ? (JSON.parse(process.env.CREDIT_PRICES) as Record<string, ModelPrice>)
+      : {})
+  };
+  return prices;
+}
+
+/**
+ * What a create call is expected to cost, and how that was worked out.
+ */
+export interface CostEstimate {
+  model: string;
+  credits: number;
+  /** What `rate` is charged per. */
+  unit: "output" | "second";
+  rate: number;
+  /** Seconds of video billed, for per-second models. */
+  seconds?: number;
+  /** Resolution class the rate was picked by, for resolution-priced models. */
+  resolution?: string;
+  /** False when the model is missing from the price table (counted as free). */
+  priced: boolean;
+}
+
+/**
+ * Estimate a create call from its model, ratio and duration. `seconds` stands
+ * in for a duration the arguments cannot carry, e.g. an upscale's input length;
+ * otherwise the model's default duration, then the price table's, is assumed.
+ */
+export function estimateCost(
+  args: Record<string, unknown>,
+  { seconds }: { seconds?: number } = {}
+): CostEstimate {
+  const model = typeof args.model === "string" ? args.model : "unknown";
+  const price = getCreditPrices()[model];
+  if (!price) {
+    return { model, credits: 0, unit: "output", rate: 0, priced: false };
+  }
+  if (price.perSecond !== undefined) {
+    const billed =
+      typeof args.duration === "number"
+        ? args.duration
+        : seconds ?? findModel(model)?.defaultDuration ?? price.defaultSeconds ?? 0;
+    return {
+      model,
+      credits: price.perSecond * billed,
+      unit: "second",
+      rate: price.perSecond,
+      seconds: billed,
+      priced: true
+    };
+  }
+  if (price.byResolution) {
+    const ratio = typeof args.ratio === "string" ? args.ratio : findModel(model)?.defaultRatio;
+    const resolution = ratio && RATIOS_720P.has(ratio) ? "720p" : "1080p";
+    const rate = price.byResolution[resolution] ?? 0;
+    return { model, credits: rate, unit: "output", rate, resolution, priced: true };
+  }
+  const rate = price.perOutput ?? 0;
+  return { model, credits: rate, unit: "output", rate, priced: true };
+}
@@ -0,0 +1,321 @@
+// File: src/errors.ts
+import RunwayML, {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIError,
+  AuthenticationError,
+  BadRequestError,
+  ConflictError,
+  InternalServerError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  TaskFailedError,
+  TaskTimedOutError,
+  UnprocessableEntityError
+} from "@runwayml/sdk";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { AuthError } from "./auth.js";
+import { IdempotencyKeyInUseError, IdempotencyKeyReusedError } from "./idempotency.js";
+import { PipelineDefinitionError } from "./pipelines.js";
+import { RunwayKeyError } from "./runwayKeys.js";
+import { QueuedTaskCancelledError, QueueFullError } from "./scheduler.js";
+import { SessionLimitError } from "./sessions.js";
+import {
+  TaskCancelledError,
+  TaskNotFoundError,
+  ToolForbiddenError,
+  ToolInputError,
+  UnknownToolError
+} from "./runwayTools.js";
+import { UploadError } from "./uploads.js";
+import { UsageLimitError } from "./usage.js";
+import { WebhookTargetError } from "./webhooks.js";
+import { sleep } from "./taskWatch.js";
+
+/**
+ * Stable, machine-readable error codes. Every surface reports the same code
+ * for the same failure: the `error` field of MCP results and REST bodies, and
+ * `data.error` of JSON-RPC errors.
+ */
+export type ErrorCode =
+  | "InvalidArguments"
+  | "UnknownTool"
+  | "Unauthenticated"
+  | "Forbidden"
+  | "NotFound"
+  | "Conflict"
+  | "IdempotencyConflict"
+  | "IdempotencyInProgress"
+  | "PayloadTooLarge"
+  | "UnsupportedMediaType"
+  | "RateLimited"
+  | "BudgetExceeded"
+  | "RunwayRateLimited"
+  | "RunwayAuthFailed"
+  | "RunwayPermissionDenied"
+  | "RunwayUnavailable"
+  | "QueueFull"
+  | "TooManySessions"
+  | "ContentModerated"
+  | "InvalidAsset"
+  | "TaskFailed"
+  | "TaskCancelled"
+  | "CancelledByClient"
+  | "PipelineStepFailed"
+  | "Timeout"
+  | "Internal";
+
+/** HTTP status each code is answered with. */
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  InvalidArguments: 400,
+  UnknownTool: 404,
+  Unauthenticated: 401,
+  Forbidden: 403,
+  NotFound: 404,
+  Conflict: 409,
+  IdempotencyConflict: 422,
+  IdempotencyInProgress: 409,
+  PayloadTooLarge: 413,
+  UnsupportedMediaType: 415,
+  RateLimited: 429,
+  BudgetExceeded: 429,
+  RunwayRateLimited: 429,
+  RunwayAuthFailed: 502,
+  RunwayPermissionDenied: 502,
+  RunwayUnavailable: 503,
+  QueueFull: 503,
+  TooManySessions: 503,
+  ContentModerated: 422,
+  InvalidAsset: 422,
+  TaskFailed: 502,
+  TaskCancelled: 409,
+  CancelledByClient: 499,
+  PipelineStepFailed: 502,
+  Timeout: 504,
+  Internal: 500
+};
+
+/**
+ * JSON-RPC error code for a stable code: the standard codes where one fits,
+ * else -32000 with the stable code in `data.error`.
+ */
+export function jsonRpcCode(code: ErrorCode): number {
+  if (code === "InvalidArguments") return -32602;
+  if (code === "UnknownTool") return -32601;
+  if (code === "Internal") return -32603;
+  return -32000;
+}
+
+/**
+ * A failure as callers see it. `retryable` means the same call may succeed
+ * if sent again later (after `retryAfterSeconds`, when given).
+ */
+export interface ErrorDescription {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  retryAfterSeconds?: number;
+  /** Extra fields for the error body, e.g. validation issues or the failed task. */
+  details?: Record<string, unknown>;
+}
+
+/** Seconds from a Retry-After header (delta or HTTP date), if it has one. */
+function retryAfter(err: APIError): number | undefined {
+  const header = err.headers?.["retry-after"];
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const at = Number.isNaN(seconds) ? (Date.parse(header) - Date.now()) / 1000 : seconds;
+  return Number.isNaN(at) ? undefined : Math.max(0, Math.ceil(at));
+}
+
+/**
+ * Runway failure codes look like SAFETY.INPUT.TEXT, ASSET.INVALID or
+ * INTERNAL.BAD_OUTPUT.CODE01; only internal failures are worth retrying.
+ */
+function describeTaskFailure(task: TaskFailedError["taskDetails"]): ErrorDescription {
+  const failureCode = task.failureCode ?? "";
+  const segments = failureCode.split(".");
+  const details = { taskId: task.id, failureCode: task.failureCode, details: task };
+  const message = task.failure ?? `Task ${task.id} ${task.status.toLowerCase()}`;
+  if (task.status === "CANCELLED") {
+    return { code: "TaskCancelled", message, retryable: false, details };
+  }
+  if (segments.includes("SAFETY")) {
+    return { code: "ContentModerated", message, retryable: false, details };
+  }
+  if (segments[0] === "ASSET") {
+    return { code: "InvalidAsset", message, retryable: false, details };
+  }
+  return { code: "TaskFailed", message, retryable: segments.includes("INTERNAL"), details };
+}
+
+// For our own errors that carry an HTTP status (uploads, stored Runway keys).
+function codeForStatus(status: number): ErrorCode {
+  if (status === 403) return "Forbidden";
+  if (status === 404) return "NotFound";
+  if (status === 413) return "PayloadTooLarge";
+  if (status === 415) return "UnsupportedMediaType";
+  return "InvalidArguments";
+}
+
+/**
+ * Map anything thrown by a tool, the job API or a Runway call to its stable
+ * code. Unknown errors are Internal.
+ */
+export function describeError(err: unknown): ErrorDescription {
+  const message = err instanceof Error ? err.message : String(err);
+  const fail = (code: ErrorCode, retryable = false, details?: Record<string, unknown>) => ({
+    code,
+    message,
+    retryable,
+    ...(details ? { details } : {})
+  });
+
+  if (err instanceof ToolInputError) {
+    return fail("InvalidArguments", false, { issues: err.issues });
+  }
+  if (err instanceof PipelineDefinitionError || err instanceof WebhookTargetError) {
+    return fail("InvalidArguments");
+  }
+  if (err instanceof UnknownToolError) return fail("UnknownTool");
+  if (err instanceof ToolForbiddenError) return fail("Forbidden");
+  if (err instanceof TaskNotFoundError) return fail("NotFound", false, { taskId: err.taskId });
+  if (err instanceof AuthError) return fail(err.status === 401 ? "Unauthenticated" : "Forbidden");
+  if (err instanceof RunwayKeyError || err instanceof UploadError) {
+    return fail(codeForStatus(err.status));
+  }
+  if (err instanceof UsageLimitError) {
+    const { error: _code, message: _message, ...details } = err.toJSON();
+    return {
+      code: err.code,
+      message,
+      // A budget only resets at the end of its period.
+      retryable: err.code === "RateLimited",
+      retryAfterSeconds: err.retryAfterSeconds,
+      details
+    };
+  }
+  if (err instanceof TaskCancelledError) {
+    return fail("CancelledByClient", false, { taskId: err.taskId });
+  }
+  if (err instanceof IdempotencyKeyReusedError) {
+    return fail("IdempotencyConflict", false, err.taskId ? { taskId: err.taskId } : undefined);
+  }
+  if (err instanceof QueueFullError) return fail("QueueFull", true);
+  if (err instanceof SessionLimitError) {
+    return { ...fail("TooManySessions", true), retryAfterSeconds: 5 };
+  }
+  if (err instanceof QueuedTaskCancelledError) {
+    return fail("TaskCancelled", false, { taskId: err.queueId });
+  }
+  if (err instanceof IdempotencyKeyInUseError) {
+    return { ...fail("IdempotencyInProgress", true), retryAfterSeconds: 1 };
+  }
+
+  if (err instanceof TaskFailedError) return describeTaskFailure(err.taskDetails);
+  if (err instanceof TaskTimedOutError) {
+    // The task keeps running; sending the call again would start another one.
+    return {
+      code: "Timeout",
+      message: `Stopped waiting for task ${err.taskDetails.id}; poll runway.tasks.retrieve for the result`,
+      retryable: false,
+      details: { taskId: err.taskDetails.id, status: err.taskDetails.status }
+    };
+  }
+  if (err instanceof APIConnectionTimeoutError) return fail("Timeout", true);
+  if (err instanceof APIConnectionError) return fail("RunwayUnavailable", true);
+  if (err instanceof BadRequestError || err instanceof UnprocessableEntityError) {
+    return fail("InvalidArguments", false, err.error ? { runway: err.error } : undefined);
+  }
+  if (err instanceof AuthenticationError) return fail("RunwayAuthFailed");
+  if (err instanceof PermissionDeniedError) return fail("RunwayPermissionDenied");
+  if (err instanceof NotFoundError) return fail("NotFound");
+  if (err instanceof ConflictError) return fail("Conflict");
+  if (err instanceof RateLimitError) {
+    const seconds = retryAfter(err);
+    return {
+      ...fail("RunwayRateLimited", true),
+      ...(seconds !== undefined ? { retryAfterSeconds: seconds } : {})
+    };
+  }
+  if (err instanceof InternalServerError) return fail("RunwayUnavailable", true);
+  return fail("Internal");
+}
+
+/**
+ * The error body shared by MCP results, REST responses and JSON-RPC `data`.
+ */
+export interface ErrorBody {
+  error: ErrorCode;
+  message: string;
+  retryable: boolean;
+  retryAfterSeconds?: number;
+  [detail: string]: unknown;
+}
+
+export function errorBody(description: ErrorDescription): ErrorBody {
+  const { code, message, retryable, retryAfterSeconds, details } = description;
+  return {
+    error: code,
+    message,
+    retryable,
+    ...(retryAfterSeconds !== undefined ? { retryAfterSeconds } : {}),
+    ...details
+  };
+}
+
+/**
+ * The error body of a failed tool result, when the failure has a stable code.
+ */
+export function toolResultError(result: CallToolResult): ErrorBody | undefined {
+  const body = result.isError ? result.structuredContent : undefined;
+  return typeof body?.error === "string" && body.error in ERROR_STATUS
+    ? (body as ErrorBody)
+    : undefined;
+}
+
+/**
+ * Request options for Runway create calls. The SDK would retry on its own;
+ * withCreateRetries does it instead, with settings from the environment.
+ */
+export const CREATE_REQUEST_OPTIONS: RunwayML.RequestOptions = { maxRetries: 0 };
+
+export const createRetrySettings = {
+  retries: process.env.RUNWAY_CREATE_RETRIES?.trim()
+    ? Number(process.env.RUNWAY_CREATE_RETRIES)
+    : 3,
+  baseDelayMs: Number(process.env.RUNWAY_RETRY_BASE_MS || 500),
+  maxDelayMs: Number(process.env.RUNWAY_RETRY_MAX_MS || 8000)
+};
+
+// Only answers that mean Runway did not take the task: 429 and 5xx.
+const shouldRetryCreate = (err: unknown) =>
+  err instanceof RateLimitError || err instanceof InternalServerError;
+
+/**
+ * Run a Runway create call, retrying 429 and 5xx answers with full-jitter
+ * exponential backoff. A Retry-After header, when sent, is waited out
+ * instead, unless it is longer than the longest backoff. Gives up early when
+ * `signal` aborts.
+ */
+export async function withCreateRetries<T>(
+  create: () => Promise<T>,
+  { signal }: { signal?: AbortSignal } = {},
+  { retries, baseDelayMs, maxDelayMs } = createRetrySettings
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await create();
+    } catch (err: unknown) {
+      if (attempt >= retries || !shouldRetryCreate(err) || signal?.aborted) throw err;
+      const hinted = retryAfter(err as APIError);
+      if (hinted !== undefined && hinted * 1000 > maxDelayMs) throw err;
+      const delay =
+        hinted !== undefined
+          ? hinted * 1000
+          : Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(delay, signal);
+    }
+  }
+}
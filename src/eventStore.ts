@@ -0,0 +1,85 @@
+// File: src/eventStore.ts
+import type {
+  EventId,
+  EventStore,
+  StreamId
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+export const eventStoreSettings = {
+  /** Messages kept per SSE stream for replay. */
+  maxEventsPerStream: Number(process.env.MCP_EVENT_HISTORY || 100),
+  // Every POST answered over SSE is a stream of its own; only the latest are kept.
+  maxStreams: 50
+};
+
+interface Stream {
+  next: number;
+  events: { n: number; message: JSONRPCMessage }[];
+}
+
+// Event ids are "<streamId>:<n>"; stream ids are UUIDs or "_GET_stream".
+function parseEventId(eventId: EventId): { streamId: StreamId; n: number } | undefined {
+  const at = eventId.lastIndexOf(":");
+  const n = Number(eventId.slice(at + 1));
+  return at > 0 && Number.isInteger(n) ? { streamId: eventId.slice(0, at), n } : undefined;
+}
+
+/**
+ * Messages one MCP session has sent, so a client whose SSE connection
+ * dropped can reconnect with Last-Event-ID and receive what it missed.
+ */
+export class MemoryEventStore implements EventStore {
+  private readonly streams = new Map<StreamId, Stream>();
+
+  constructor(private readonly settings = eventStoreSettings) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    let stream = this.streams.get(streamId);
+    if (!stream) {
+      stream = { next: 1, events: [] };
+      this.streams.set(streamId, stream);
+      if (this.streams.size > this.settings.maxStreams) {
+        this.streams.delete(this.streams.keys().next().value!);
+      }
+    }
+    const n = stream.next++;
+    stream.events.push({ n, message });
+    if (stream.events.length > this.settings.maxEventsPerStream) stream.events.shift();
+    return `${streamId}:${n}`;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const parsed = parseEventId(eventId);
+    return parsed && this.streams.has(parsed.streamId) ? parsed.streamId : undefined;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const parsed = parseEventId(lastEventId);
+    const stream = parsed && this.streams.get(parsed.streamId);
+    if (!parsed || !stream) {
+      throw new Error(`Unknown event id ${lastEventId}`);
+    }
+    for (const { n, message } of stream.events) {
+      if (n > parsed.n) await send(`${parsed.streamId}:${n}`, message);
+    }
+    return parsed.streamId;
+  }
+}
+
+/**
+ * Creates the event store for one MCP session; undefined turns replay off.
+ * Stream ids repeat across sessions, so stores are never shared.
+ */
+export type EventStoreFactory = (sessionId: string) => EventStore | undefined;
+
+/**
+ * The event stores MCP sessions use: in-process by default, none when
+ * MCP_EVENT_STORE=off.
+ */
+export function getEventStoreFactory(): EventStoreFactory {
+  return process.env.MCP_EVENT_STORE === "off" ? () => undefined : () => new MemoryEventStore();
+}
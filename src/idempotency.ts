@@ -0,0 +1,250 @@
+// File: src/idempotency.ts
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { z } from "zod";
+
+/** Request header that carries an idempotency key on the HTTP surfaces. */
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+
+/**
+ * The `idempotencyKey` argument accepted by every generation tool.
+ */
+export const idempotencyShape = {
+  idempotencyKey: z
+    .string()
+    .min(1)
+    .max(255)
+    .optional()
+    .describe(
+      "Unique key for this request. Sending it again with the same arguments returns the original task instead of starting (and paying for) another."
+    )
+};
+
+export const idempotencySettings = {
+  ttlMs: Number(process.env.IDEMPOTENCY_TTL_HOURS || 24) * 60 * 60 * 1000,
+  // A claim whose create call never finished (e.g. the process died) is given up after this.
+  pendingTtlMs: 10 * 60 * 1000
+};
+
+/**
+ * A key as the store keeps it. `taskId` is unset while the first create
+ * call is still running.
+ */
+export interface IdempotencyRecord {
+  /** Client and key, so one client's keys never match another's. */
+  id: string;
+  tool: string;
+  /** SHA-256 of the tool name and the arguments that shape the task. */
+  fingerprint: string;
+  taskId?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Storage for idempotency keys. Expired records must not be returned.
+ */
+export interface IdempotencyStore {
+  /**
+   * Store `record` unless a live record has its id; returns that record if so.
+   */
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined>;
+  /** Note the task a claimed key created; it is kept for the retention window. */
+  complete(id: string, taskId: string, expiresAt: string): Promise<void>;
+  /** Drop a claim whose create call failed, so the key can be used again. */
+  release(id: string): Promise<void>;
+}
+
+const isLive = (record: IdempotencyRecord, now: number) => Date.parse(record.expiresAt) > now;
+
+/**
+ * In-process store; also the working set for JsonFileIdempotencyStore.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  protected records = new Map<string, IdempotencyRecord>();
+
+  protected prune(now = Date.now()): void {
+    for (const [id, record] of this.records) {
+      if (!isLive(record, now)) this.records.delete(id);
+    }
+  }
+
+  async claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined> {
+    this.prune();
+    const existing = this.records.get(record.id);
+    if (existing) return existing;
+    this.records.set(record.id, record);
+    return undefined;
+  }
+
+  async complete(id: string, taskId: string, expiresAt: string): Promise<void> {
+    const existing = this.records.get(id);
+    if (existing) {
+      this.records.set(id, { ...existing, taskId, expiresAt });
+    }
+  }
+
+  async release(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
+
+/**
+ * Keys in a single JSON file, rewritten atomically on change, so a retry
+ * after a restart still finds its task.
+ */
+export class JsonFileIdempotencyStore extends MemoryIdempotencyStore {
+  private loaded: Promise<void> | undefined;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= readFile(this.filePath, "utf8")
+      .then(
+        (raw) => {
+          for (const r of JSON.parse(raw) as IdempotencyRecord[]) {
+            this.records.set(r.id, r);
+          }
+        },
+        (err: NodeJS.ErrnoException) => {
+          if (err.code !== "ENOENT") throw err;
+        }
+      )
+      .catch((err: unknown) => {
+        this.loaded = undefined;
+        throw err;
+      });
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.records.values()], null, 2);
+    // A failed write keeps the key in memory rather than failing the call.
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await writeFile(tmp, snapshot);
+        await rename(tmp, this.filePath);
+      })
+      .catch((err: unknown) => {
+        console.error("Idempotency store write failed:", (err as Error).message);
+      });
+    return this.writes;
+  }
+
+  async claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined> {
+    await this.load();
+    const existing = await super.claim(record);
+    if (!existing) await this.persist();
+    return existing;
+  }
+
+  async complete(id: string, taskId: string, expiresAt: string): Promise<void> {
+    await this.load();
+    await super.complete(id, taskId, expiresAt);
+    await this.persist();
+  }
+
+  async release(id: string): Promise<void> {
+    await this.load();
+    await super.release(id);
+    await this.persist();
+  }
+}
+
+let sharedStore: IdempotencyStore | undefined;
+
+/**
+ * The process-wide key store. IDEMPOTENCY_STORE_PATH selects the JSON file
+ * (default data/idempotency.json); IDEMPOTENCY_STORE=memory keeps keys
+ * in-process only. Keys are kept for IDEMPOTENCY_TTL_HOURS (default 24).
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  sharedStore ??=
+    process.env.IDEMPOTENCY_STORE === "memory"
+      ? new MemoryIdempotencyStore()
+      : new JsonFileIdempotencyStore(
+          process.env.IDEMPOTENCY_STORE_PATH || "data/idempotency.json"
+        );
+  return sharedStore;
+}
+
+/**
+ * A key reused with different arguments (or for a different tool).
+ */
+export class IdempotencyKeyReusedError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly taskId: string | undefined
+  ) {
+    super(`Idempotency key ${key} was already used with different arguments`);
+    this.name = "IdempotencyKeyReusedError";
+  }
+}
+
+/**
+ * A key whose first request is still creating its task.
+ */
+export class IdempotencyKeyInUseError extends Error {
+  constructor(public readonly key: string) {
+    super(`A request with idempotency key ${key} is still in progress`);
+    this.name = "IdempotencyKeyInUseError";
+  }
+}
+
+// Arguments that change how a call waits or reports, not which task it creates.
+const NON_TASK_ARGS = new Set(["idempotencyKey", "wait", "timeoutMs", "mirror", "dryRun"]);
+
+// JSON with sorted keys, so argument order does not change the fingerprint.
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function argumentsFingerprint(tool: string, args: Record<string, unknown>): string {
+  const taskArgs = Object.fromEntries(
+    Object.entries(args).filter(([k]) => !NON_TASK_ARGS.has(k))
+  );
+  return createHash("sha256").update(canonical({ tool, args: taskArgs })).digest("hex");
+}
+
+/**
+ * Claim `key` for one client's create call. Resolves with the original
+ * task id when the same call already ran, or with none when this call
+ * should create the task (then complete or release the claim).
+ */
+export async function claimIdempotencyKey(
+  store: IdempotencyStore,
+  request: { client: string; key: string; tool: string; args: Record<string, unknown> },
+  now = Date.now()
+): Promise<{ id: string; taskId?: string }> {
+  const { client, key, tool, args } = request;
+  const id = `${client}:${key}`;
+  const fingerprint = argumentsFingerprint(tool, args);
+  const existing = await store.claim({
+    id,
+    tool,
+    fingerprint,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + idempotencySettings.pendingTtlMs).toISOString()
+  });
+  if (!existing) return { id };
+  if (existing.fingerprint !== fingerprint) {
+    throw new IdempotencyKeyReusedError(key, existing.taskId);
+  }
+  if (!existing.taskId) {
+    throw new IdempotencyKeyInUseError(key);
+  }
+  return { id, taskId: existing.taskId };
+}
@@ -0,0 +1,175 @@
+// File: src/jobs.ts
+import type RunwayML from "@runwayml/sdk";
+import {
+  assertTaskOwner,
+  assertToolAllowed,
+  findRunwayTool,
+  recordTaskOutcome,
+  resolveQueuedTask,
+  startTask,
+  TaskNotFoundError,
+  toolArgsSchema,
+  ToolInputError,
+  UnknownToolError,
+  taskOwner,
+  type ToolContext
+} from "./runwayTools.js";
+import { queueProgress, taskProgress, type TaskProgress } from "./progress.js";
+import { isQueueId, type QueueStatus } from "./scheduler.js";
+import {
+  isTerminalStatus as isTerminalTaskStatus,
+  POLL_INTERVAL_MS,
+  sleep,
+  watchTask,
+  type TaskStatus
+} from "./taskWatch.js";
+
+/** QUEUED while the job waits for a Runway slot (see TaskScheduler). */
+export type JobStatus = TaskStatus | "QUEUED";
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return status !== "QUEUED" && isTerminalTaskStatus(status);
+}
+
+/**
+ * Public view of an async generation job. The job id is the Runway task id,
+ * so any instance can answer for a job without shared state. A job that had
+ * to wait for a slot keeps its queue id, and that instance answers for it.
+ */
+export interface Job {
+  id: string;
+  status: JobStatus;
+  progress: number | null;
+  output: string[];
+  failure?: string;
+  failureCode?: string;
+  createdAt: string;
+  /** The Runway task, when the job id is a queue id. */
+  taskId?: string;
+  /** Place in line and rough seconds to a slot, while QUEUED. */
+  queuePosition?: number;
+  etaSeconds?: number;
+  /** Set when an idempotency key matched an earlier request's job. */
+  replayed?: true;
+}
+
+function toJob(task: RunwayML.TaskRetrieveResponse): Job {
+  return {
+    id: task.id,
+    status: task.status,
+    progress: typeof task.progress === "number" ? task.progress : null,
+    output: Array.isArray(task.output) ? task.output : [],
+    ...(task.failure ? { failure: task.failure } : {}),
+    ...(task.failureCode ? { failureCode: task.failureCode } : {}),
+    createdAt: task.createdAt
+  };
+}
+
+function queuedJob(queued: QueueStatus): Job {
+  return {
+    id: queued.id,
+    status: queued.status === "CANCELLED" ? "CANCELLED" : "QUEUED",
+    progress: null,
+    output: [],
+    ...(queued.queuePosition !== undefined
+      ? { queuePosition: queued.queuePosition, etaSeconds: queued.etaSeconds }
+      : {}),
+    createdAt: queued.enqueuedAt
+  };
+}
+
+// A job that waited in the queue keeps its queue id.
+const asJob = (task: RunwayML.TaskRetrieveResponse, queued?: QueueStatus): Job =>
+  queued ? { ...toJob(task), id: queued.id, taskId: task.id } : toJob(task);
+
+/**
+ * Start a generation tool's Runway task and return immediately.
+ */
+export async function createJob(
+  toolName: string,
+  args: unknown,
+  ctx: ToolContext
+): Promise<Job> {
+  const tool = findRunwayTool(toolName);
+  if (!tool?.createTask) {
+    throw new UnknownToolError(toolName, `${toolName} is not a generation tool`);
+  }
+  assertToolAllowed(toolName, ctx);
+  const parsed = toolArgsSchema(tool).safeParse(args ?? {});
+  if (!parsed.success) {
+    throw new ToolInputError(toolName, parsed.error.issues);
+  }
+  const { taskId, replayed, queued } = await startTask(tool, parsed.data, ctx, {
+    willWait: false
+  });
+  if (replayed) {
+    return { ...(await getJob(ctx, taskId)), replayed };
+  }
+  if (queued) {
+    return getJob(ctx, taskId);
+  }
+  return {
+    id: taskId,
+    status: "PENDING",
+    progress: null,
+    output: [],
+    createdAt: new Date().toISOString()
+  };
+}
+
+export async function getJob(ctx: ToolContext, id: string): Promise<Job> {
+  await assertTaskOwner(id, ctx);
+  const { taskId, queued } = await resolveQueuedTask(id, ctx, { wait: false });
+  if (!taskId) {
+    return queuedJob(queued!);
+  }
+  if (queued) await assertTaskOwner(taskId, ctx);
+  const task = await ctx.runway.tasks.retrieve(taskId);
+  await recordTaskOutcome(task, ctx);
+  return asJob(task, queued);
+}
+
+/**
+ * Poll a job until it reaches a terminal status (or the signal aborts),
+ * invoking onUpdate whenever its status or progress changes.
+ */
+export async function watchJob(
+  ctx: ToolContext,
+  id: string,
+  onUpdate: (job: Job, progress: TaskProgress) => void,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<Job | undefined> {
+  await assertTaskOwner(id, ctx);
+  const owner = taskOwner(ctx);
+  let queued = ctx.scheduler?.get(id, owner);
+  if (!queued && isQueueId(id)) throw new TaskNotFoundError(id);
+  let position: number | undefined;
+  // Report the place in line until the task exists.
+  while (queued && !queued.taskId) {
+    if (queued.status === "FAILED") throw ctx.scheduler!.failure(id);
+    const job = queuedJob(queued);
+    if (job.status === "CANCELLED") return job;
+    if (queued.queuePosition !== position) {
+      position = queued.queuePosition;
+      onUpdate(job, queueProgress(queued));
+    }
+    await Promise.race([
+      ctx.scheduler!.whenStarted(id).catch(() => undefined),
+      sleep(POLL_INTERVAL_MS, signal)
+    ]);
+    if (signal?.aborted) return undefined;
+    queued = ctx.scheduler!.get(id, owner);
+  }
+
+  if (queued) await assertTaskOwner(queued.taskId!, ctx);
+  const task = await watchTask(
+    ctx.runway,
+    queued?.taskId ?? id,
+    async (update) => {
+      await recordTaskOutcome(update, ctx);
+      onUpdate(asJob(update, queued), taskProgress(update));
+    },
+    { signal }
+  );
+  return task && asJob(task, queued);
+}
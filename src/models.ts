@@ -0,0 +1,440 @@
+// File: src/models.ts
+import { z } from "zod";
+
+/**
+ * Kinds of generation a Runway model can perform. Tool names are
+ * `runway.<task>`.
+ */
+export type ModelTask =
+  | "text_to_image"
+  | "image_to_video"
+  | "text_to_video"
+  | "video_to_video"
+  | "video_upscale"
+  | "character_performance";
+
+/** Inputs a model takes besides its settings. */
+export type InputKind = "text" | "image" | "video";
+
+/**
+ * What one Runway model accepts. Tool schemas, the models endpoint and the
+ * web UI are all built from these entries.
+ */
+export interface ModelCapabilities {
+  id: string;
+  name: string;
+  tasks: readonly ModelTask[];
+  inputs: readonly InputKind[];
+  /** Output ratios ("width:height"); empty when the output follows the input. */
+  ratios: readonly string[];
+  /** Sent when the caller gives no ratio (Runway requires one). */
+  defaultRatio?: string;
+  /** Output lengths in seconds; empty for images or input-length outputs. */
+  durations: readonly number[];
+  defaultDuration?: number;
+  /** How many reference images the model takes, when it takes any. */
+  referenceImages?: { min: number; max: number };
+  /** Whether `bodyControl` (body and hand motion on top of the face) is supported. */
+  bodyControl?: boolean;
+  /** Allowed `expressionIntensity` values, when the model takes one. */
+  expressionIntensity?: { min: number; max: number };
+  /** Keyframe positions an image-to-video model accepts for its prompt images. */
+  keyframes?: readonly KeyframePosition[];
+  /** Whether `contentModeration` settings are accepted. */
+  contentModeration?: boolean;
+}
+
+export type KeyframePosition = "first" | "last";
+
+const GEN4_IMAGE_RATIOS = [
+  "1920:1080",
+  "1080:1920",
+  "1024:1024",
+  "1360:768",
+  "1080:1080",
+  "1168:880",
+  "1440:1080",
+  "1080:1440",
+  "1808:768",
+  "2112:912",
+  "1280:720",
+  "720:1280",
+  "720:720",
+  "960:720",
+  "720:960",
+  "1680:720"
+] as const;
+
+const GEN4_VIDEO_RATIOS = [
+  "1280:720",
+  "720:1280",
+  "1104:832",
+  "832:1104",
+  "960:960",
+  "1584:672"
+] as const;
+
+// Kept literal so tool arguments are typed with exactly the registry's values.
+const MODELS = [
+  {
+    id: "gen4_image",
+    name: "Gen-4 Image",
+    tasks: ["text_to_image"],
+    inputs: ["text", "image"],
+    ratios: GEN4_IMAGE_RATIOS,
+    defaultRatio: "1920:1080",
+    durations: [],
+    referenceImages: { min: 0, max: 3 },
+    contentModeration: true
+  },
+  {
+    id: "gen4_image_turbo",
+    name: "Gen-4 Image Turbo",
+    tasks: ["text_to_image"],
+    inputs: ["text", "image"],
+    ratios: GEN4_IMAGE_RATIOS,
+    defaultRatio: "1920:1080",
+    durations: [],
+    referenceImages: { min: 1, max: 3 },
+    contentModeration: true
+  },
+  {
+    id: "gemini_2.5_flash",
+    name: "Gemini 2.5 Flash Image",
+    tasks: ["text_to_image"],
+    inputs: ["text", "image"],
+    ratios: ["1344:768", "768:1344", "1024:1024", "1184:864", "864:1184", "1536:672"],
+    defaultRatio: "1024:1024",
+    durations: [],
+    referenceImages: { min: 0, max: 3 }
+  },
+  {
+    id: "gen4_turbo",
+    name: "Gen-4 Turbo",
+    tasks: ["image_to_video"],
+    inputs: ["image", "text"],
+    ratios: GEN4_VIDEO_RATIOS,
+    defaultRatio: "1280:720",
+    durations: [5, 10],
+    defaultDuration: 10,
+    keyframes: ["first"],
+    contentModeration: true
+  },
+  {
+    id: "gen3a_turbo",
+    name: "Gen-3 Alpha Turbo",
+    tasks: ["image_to_video"],
+    inputs: ["image", "text"],
+    ratios: ["1280:768", "768:1280"],
+    defaultRatio: "1280:768",
+    durations: [5, 10],
+    defaultDuration: 10,
+    keyframes: ["first", "last"],
+    contentModeration: true
+  },
+  {
+    id: "veo3",
+    name: "Veo 3",
+    tasks: ["image_to_video", "text_to_video"],
+    inputs: ["image", "text"],
+    ratios: ["1280:720", "720:1280"],
+    defaultRatio: "1280:720",
+    durations: [8],
+    defaultDuration: 8,
+    keyframes: ["first"]
+  },
+  {
+    id: "gen4_aleph",
+    name: "Gen-4 Aleph",
+    tasks: ["video_to_video"],
+    inputs: ["video", "text", "image"],
+    ratios: [...GEN4_VIDEO_RATIOS, "848:480", "640:480"],
+    defaultRatio: "1280:720",
+    durations: [],
+    referenceImages: { min: 0, max: 1 },
+    contentModeration: true
+  },
+  {
+    id: "act_two",
+    name: "Act-Two",
+    tasks: ["character_performance"],
+    inputs: ["image", "video"],
+    ratios: GEN4_VIDEO_RATIOS,
+    defaultRatio: "1280:720",
+    durations: [],
+    bodyControl: true,
+    expressionIntensity: { min: 1, max: 5 },
+    contentModeration: true
+  },
+  {
+    id: "upscale_v1",
+    name: "Upscale v1",
+    tasks: ["video_upscale"],
+    inputs: ["video"],
+    ratios: [],
+    durations: []
+  }
+] as const satisfies readonly ModelCapabilities[];
+
+type RegistryModel = (typeof MODELS)[number];
+type ModelFor<T extends ModelTask, M = RegistryModel> = M extends {
+  tasks: readonly (infer Task)[];
+}
+  ? T extends Task
+    ? M
+    : never
+  : never;
+
+// Per task: the ids, or every ratio or duration, of the models that perform it.
+type ByTask<Key extends "id" | "ratios" | "durations"> = {
+  [T in ModelTask]: ModelFor<T>[Key] extends infer V
+    ? V extends readonly unknown[]
+      ? V[number]
+      : V
+    : never;
+};
+
+/** Ids of the models that can perform `T`, e.g. "gen4_turbo" for image_to_video. */
+export type ModelId<T extends ModelTask> = ByTask<"id">[T];
+/** Every ratio some model for `T` supports. */
+export type ModelRatio<T extends ModelTask> = ByTask<"ratios">[T];
+/** Every duration some model for `T` supports. */
+export type ModelDuration<T extends ModelTask> = ByTask<"durations">[T];
+
+/** Every known model, optionally only those that can perform `task`. */
+export function listModels(task?: ModelTask): ModelCapabilities[] {
+  return MODELS.filter((m: ModelCapabilities) => !task || m.tasks.includes(task));
+}
+
+export function findModel(id: string): ModelCapabilities | undefined {
+  return MODELS.find((m) => m.id === id);
+}
+
+export const MODEL_TASKS: readonly ModelTask[] = [
+  "text_to_image",
+  "image_to_video",
+  "text_to_video",
+  "video_to_video",
+  "video_upscale",
+  "character_performance"
+];
+
+const ids = <T extends ModelTask>(task: T) =>
+  listModels(task).map((m) => m.id) as [ModelId<T>, ...ModelId<T>[]];
+
+/**
+ * The `model` argument of a tool for `task`: one of the registry's ids, with
+ * a message listing them when the caller picks anything else.
+ */
+export function modelSchema<T extends ModelTask>(
+  task: T,
+  // The form zod's .default() takes, so it accepts the id while T is generic.
+  defaultModel: z.util.noUndefined<ModelId<T>>
+) {
+  const allowed = ids(task);
+  return z
+    .enum(allowed, {
+      errorMap: (issue, ctx) =>
+        issue.code === "invalid_enum_value"
+          ? {
+              message: `Unknown model '${String(issue.received)}' for ${task}; use one of ${allowed.join(", ")}`
+            }
+          : { message: ctx.defaultError }
+    })
+    .default(defaultModel)
+    .describe(`Runway model id: ${allowed.join(", ")}. Defaults to ${defaultModel}.`);
+}
+
+/**
+ * The `ratio` argument of a tool for `task`: any ratio one of its models
+ * supports. Which ratios are allowed depends on the model, so the per-model
+ * check is in `refineModelArgs`.
+ */
+export function ratioSchema<T extends ModelTask>(task: T) {
+  const ratios = [...new Set(listModels(task).flatMap((m) => m.ratios))] as [
+    ModelRatio<T>,
+    ...ModelRatio<T>[]
+  ];
+  const examples = ratios.slice(0, 3);
+  return z
+    .enum(ratios, {
+      errorMap: (issue, ctx) =>
+        issue.code === "invalid_enum_value"
+          ? {
+              message: `Unsupported ratio '${String(issue.received)}' for ${task}; each model's ratios are listed by runway.models.list`
+            }
+          : { message: ctx.defaultError }
+    })
+    .optional()
+    .describe(
+      `Output resolution as 'width:height' (e.g. ${examples.map((r) => `'${r}'`).join(", ")}). ` +
+        "Allowed values depend on the model (see runway.models.list); defaults to the model's first."
+    );
+}
+
+/**
+ * The `duration` argument of a tool for `task`: any length one of its models
+ * supports; `refineModelArgs` checks it against the chosen model.
+ */
+export function durationSchema<T extends ModelTask>(task: T) {
+  const durations: readonly number[] = [
+    ...new Set(listModels(task).flatMap((m) => m.durations))
+  ].sort((a, b) => a - b);
+  return z
+    .number()
+    .int()
+    .superRefine((d, ctx): d is ModelDuration<T> => {
+      if (durations.includes(d)) return true;
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unsupported duration for ${task}; use one of ${durations.join(", ")} seconds, depending on the model`,
+        // Like an unknown ratio: skip the per-model checks, which would repeat it.
+        fatal: true
+      });
+      return false;
+    })
+    .optional()
+    .describe("Output length in seconds; allowed values depend on the model (default: its longest).");
+}
+
+/** Reference image tags: letters, digits and underscores, starting with a letter. */
+const REFERENCE_TAG = /^[A-Za-z][A-Za-z0-9_]*$/;
+// An @tag mention in a prompt; the lookbehind skips e-mail addresses.
+const TAG_MENTION = /(?<![\w@])@([A-Za-z][A-Za-z0-9_]*)/g;
+
+/**
+ * The `referenceImages` argument: images that guide the output, each
+ * optionally tagged so the prompt can mention it as `@tag`.
+ */
+export function referenceImagesSchema() {
+  return z
+    .array(
+      z.object({
+        uri: z
+          .string()
+          .url("referenceImages[].uri must be a URL, data URI or upload:// reference")
+          .describe("URL, data URI or upload:// reference (see runway.upload)."),
+        tag: z
+          .string()
+          .regex(REFERENCE_TAG, "tag must be letters, digits or _ and start with a letter")
+          .optional()
+          .describe("Name to mention in promptText as @tag (case-sensitive).")
+      })
+    )
+    .optional()
+    .describe(
+      "Images to guide the output (how many depends on the model). Tag one and mention it in promptText, e.g. '@hero walking on the beach'."
+    );
+}
+
+/** The `contentModeration` argument, for models that accept it. */
+export const contentModerationSchema = z
+  .object({
+    publicFigureThreshold: z
+      .enum(["auto", "low"])
+      .optional()
+      .describe("'low' is less strict about recognizable public figures.")
+  })
+  .optional()
+  .describe("Content moderation settings (only some models accept them).");
+
+/**
+ * Cross-field checks for a generation tool's arguments: the ratio, duration,
+ * reference images, keyframes and other options must be ones the chosen
+ * model supports, and @tag mentions must name a reference image.
+ */
+export function refineModelArgs(task: ModelTask) {
+  return (args: Record<string, unknown>, ctx: z.RefinementCtx): void => {
+    const model = typeof args.model === "string" ? findModel(args.model) : undefined;
+    if (!model?.tasks.includes(task)) return;
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+    const { ratio, duration, referenceImages, promptImage, promptText } = args;
+
+    if (typeof ratio === "string" && model.ratios.length && !model.ratios.includes(ratio)) {
+      issue("ratio", `${model.id} does not support ratio ${ratio}; use one of ${model.ratios.join(", ")}`);
+    }
+    if (typeof duration === "number" && !model.durations.includes(duration)) {
+      issue(
+        "duration",
+        model.durations.length
+          ? `${model.id} supports durations of ${model.durations.join(" or ")} seconds`
+          : `${model.id} does not take a duration`
+      );
+    }
+
+    const references = Array.isArray(referenceImages)
+      ? (referenceImages as { tag?: string }[])
+      : [];
+    const limits = model.referenceImages ?? { min: 0, max: 0 };
+    if (references.length < limits.min || references.length > limits.max) {
+      issue(
+        "referenceImages",
+        limits.max === 0
+          ? `${model.id} does not take reference images`
+          : `${model.id} takes ${limits.min ? `${limits.min} to ` : "up to "}${limits.max} reference images`
+      );
+    }
+    const tags = references.flatMap((r) => (r.tag ? [r.tag] : []));
+    if (new Set(tags).size !== tags.length) {
+      issue("referenceImages", "Reference image tags must be unique");
+    }
+    if (tags.length && typeof promptText === "string") {
+      for (const [, mention] of promptText.matchAll(TAG_MENTION)) {
+        if (!tags.includes(mention)) {
+          issue("promptText", `@${mention} does not match a reference image tag (${tags.join(", ")})`);
+        }
+      }
+    }
+
+    if (Array.isArray(promptImage)) {
+      const positions = (promptImage as { position: KeyframePosition }[]).map((k) => k.position);
+      if (new Set(positions).size !== positions.length) {
+        issue("promptImage", "Each keyframe position can only be used once");
+      }
+      const supported = model.keyframes ?? [];
+      for (const position of positions.filter((p) => !supported.includes(p))) {
+        issue(
+          "promptImage",
+          `${model.id} does not support a '${position}' keyframe; supported: ${supported.join(", ") || "none"}`
+        );
+      }
+    }
+    if (args.contentModeration !== undefined && !model.contentModeration) {
+      issue("contentModeration", `${model.id} does not accept contentModeration settings`);
+    }
+
+    if (args.bodyControl !== undefined && !model.bodyControl) {
+      issue("bodyControl", `${model.id} does not support bodyControl`);
+    }
+    const intensity = args.expressionIntensity;
+    if (typeof intensity === "number") {
+      const range = model.expressionIntensity;
+      if (!range || intensity < range.min || intensity > range.max) {
+        issue(
+          "expressionIntensity",
+          range
+            ? `${model.id} takes an expressionIntensity from ${range.min} to ${range.max}`
+            : `${model.id} does not take an expressionIntensity`
+        );
+      }
+    }
+  };
+}
+
+/**
+ * Fill in the model's default ratio and duration where the caller gave none.
+ * Every registry model with ratios has a default, so `ratio` is always set.
+ */
+export function withModelDefaults<T extends { model: string; ratio?: string; duration?: number }>(
+  args: T
+): T & { ratio: NonNullable<T["ratio"]> } {
+  const model = findModel(args.model);
+  return {
+    ...args,
+    ...(args.ratio === undefined && model?.defaultRatio ? { ratio: model.defaultRatio } : {}),
+    ...(args.duration === undefined && model?.defaultDuration
+      ? { duration: model.defaultDuration }
+      : {})
+  } as T & { ratio: NonNullable<T["ratio"]> };
+}
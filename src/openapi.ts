@@ -0,0 +1,1160 @@
+// File: src/openapi.ts
+import { z } from "zod";
+import type { AnyObjectSchema } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import { toJsonSchemaCompat } from "@modelcontextprotocol/sdk/server/zod-json-schema-compat.js";
+import type { OAuthFlow } from "./auth.js";
+import { ERROR_STATUS } from "./errors.js";
+import { MODEL_TASKS } from "./models.js";
+import { organizationUsageShape } from "./organization.js";
+import { generationTools, runwayTools, type RunwayTool } from "./runwayTools.js";
+import { taskQueryShape } from "./taskLedger.js";
+
+export type OperationStyle = "single" | "per-tool";
+
+export interface OpenApiOptions {
+  /** Public base URL of this deployment, used as the only `servers` entry. */
+  serverUrl: string;
+  /**
+   * "single": one `callRunwayMCP` operation on /gpt-action (JSON-RPC envelope).
+   * "per-tool": one operation per tool on /tools/{name} (plain arguments body).
+   */
+  operations?: OperationStyle;
+  /** Declared security schemes; omit when the deployment has auth off. */
+  auth?: { apiKeys: boolean; oauth?: OAuthFlow };
+}
+
+/**
+ * GPT Actions only accept [a-zA-Z0-9_-] in operation ids.
+ */
+export function toolOperationId(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+function toJsonSchema(shape: z.ZodRawShape): Record<string, unknown> {
+  const { $schema: _ignored, ...schema } = toJsonSchemaCompat(
+    z.object(shape) as unknown as AnyObjectSchema
+  );
+  return schema;
+}
+
+/**
+ * JSON Schema for a tool's arguments, derived from its zod input shape with
+ * the same converter the MCP SDK uses for tools/list.
+ */
+export function toolArgumentsSchema(tool: RunwayTool): Record<string, unknown> {
+  return toJsonSchema(tool.inputSchema);
+}
+
+/**
+ * Express a zod shape as OpenAPI query parameters.
+ */
+function queryParameters(shape: z.ZodRawShape, required: string[] = []) {
+  const { properties = {} } = toJsonSchema(shape) as {
+    properties?: Record<string, Record<string, unknown>>;
+  };
+  return Object.entries(properties).map(([name, schema]) => {
+    const { description, ...rest } = schema;
+    return {
+      name,
+      in: "query",
+      required: required.includes(name),
+      ...(description ? { description } : {}),
+      schema: rest
+    };
+  });
+}
+
+const componentSchemas = {
+  ResourceLink: {
+    type: "object",
+    description: "Link to a generated media file.",
+    properties: {
+      type: { type: "string", enum: ["resource_link"] },
+      uri: { type: "string", format: "uri", description: "Direct URL to generated media" },
+      name: { type: "string", description: "Display name, e.g. output_01" },
+      mimeType: { type: "string", description: "Present when the output was mirrored" },
+      size: { type: "integer", description: "Byte size, present when the output was mirrored" }
+    },
+    required: ["type", "uri", "name"]
+  },
+  TextContent: {
+    type: "object",
+    description: "Text payload; for Runway tools this is a JSON document with task details.",
+    properties: {
+      type: { type: "string", enum: ["text"] },
+      text: { type: "string" }
+    },
+    required: ["type", "text"]
+  },
+  ToolResult: {
+    type: "object",
+    properties: {
+      content: {
+        type: "array",
+        items: {
+          oneOf: [
+            { $ref: "#/components/schemas/ResourceLink" },
+            { $ref: "#/components/schemas/TextContent" }
+          ]
+        }
+      },
+      isError: {
+        type: "boolean",
+        description: "True when the tool ran but the Runway call failed."
+      },
+      structuredContent: {
+        $ref: "#/components/schemas/ToolError",
+        description: "The failure, when isError is true."
+      }
+    },
+    required: ["content"]
+  },
+  JsonRpcError: {
+    type: "object",
+    properties: {
+      jsonrpc: { type: "string", enum: ["2.0"] },
+      error: {
+        type: "object",
+        properties: {
+          code: { type: "integer" },
+          message: { type: "string" },
+          data: { $ref: "#/components/schemas/ToolError" }
+        },
+        required: ["code", "message"]
+      },
+      id: { type: ["string", "number", "null"] }
+    },
+    required: ["jsonrpc", "error"]
+  },
+  JsonRpcResult: {
+    type: "object",
+    properties: {
+      jsonrpc: { type: "string", enum: ["2.0"] },
+      result: { $ref: "#/components/schemas/ToolResult" },
+      id: { type: ["string", "number", "null"] }
+    },
+    required: ["jsonrpc", "result"]
+  },
+  Job: {
+    type: "object",
+    description:
+      "Async generation job. The id is the Runway task id, or a queue id (queue_...) when the job had to wait for a Runway slot.",
+    properties: {
+      id: { type: "string" },
+      status: {
+        type: "string",
+        enum: ["QUEUED", "PENDING", "THROTTLED", "RUNNING", "SUCCEEDED", "FAILED", "CANCELLED"],
+        description: "QUEUED while the job waits for a slot on this server."
+      },
+      progress: {
+        type: ["number", "null"],
+        minimum: 0,
+        maximum: 1,
+        description: "Fraction complete while RUNNING, when Runway reports it."
+      },
+      output: {
+        type: "array",
+        items: { type: "string", format: "uri" },
+        description: "Output URLs once SUCCEEDED."
+      },
+      failure: { type: "string" },
+      failureCode: { type: "string" },
+      createdAt: { type: "string", format: "date-time" },
+      taskId: { type: "string", description: "The Runway task, when the id is a queue id." },
+      queuePosition: { type: "integer", description: "Place in line (1 is next) while QUEUED." },
+      etaSeconds: { type: "integer", description: "Rough seconds until a slot frees up." },
+      replayed: {
+        type: "boolean",
+        description: "True when the Idempotency-Key matched an earlier request's job."
+      }
+    },
+    required: ["id", "status", "progress", "output", "createdAt"]
+  },
+  JobAccepted: {
+    allOf: [
+      { $ref: "#/components/schemas/Job" },
+      {
+        type: "object",
+        properties: {
+          links: {
+            type: "object",
+            properties: {
+              self: { type: "string" },
+              events: { type: "string" }
+            }
+          }
+        }
+      }
+    ]
+  },
+  TaskRecord: {
+    type: "object",
+    description: "A generation recorded by this server's task ledger.",
+    properties: {
+      taskId: { type: "string" },
+      tool: { type: "string" },
+      model: { type: "string" },
+      promptText: { type: "string" },
+      inputs: { type: "object", additionalProperties: true },
+      sessionId: { type: "string" },
+      client: { type: "string" },
+      identity: { type: "string", description: "API key name or OAuth subject that created it" },
+      estimate: { $ref: "#/components/schemas/CostEstimate" },
+      idempotencyKey: { type: "string" },
+      status: {
+        type: "string",
+        enum: ["PENDING", "THROTTLED", "RUNNING", "SUCCEEDED", "FAILED", "CANCELLED"]
+      },
+      output: { type: "array", items: { type: "string", format: "uri" } },
+      failure: { type: "string" },
+      failureCode: { type: "string" },
+      assets: { type: "array", items: { $ref: "#/components/schemas/MirroredOutput" } },
+      createdAt: { type: "string", format: "date-time" },
+      updatedAt: { type: "string", format: "date-time" },
+      completedAt: { type: "string", format: "date-time" }
+    },
+    required: ["taskId", "tool", "inputs", "status", "output", "createdAt", "updatedAt"]
+  },
+  MirroredOutput: {
+    type: "object",
+    description: "A task output and its durable copy under /assets, or why copying failed.",
+    properties: {
+      sourceUrl: { type: "string", format: "uri", description: "Runway's signed (expiring) URL" },
+      url: { type: "string", description: "Stable URL served by this server" },
+      assetId: { type: "string" },
+      contentType: { type: "string" },
+      size: { type: "integer" },
+      sha256: { type: "string" },
+      error: { type: "string" }
+    },
+    required: ["sourceUrl"]
+  },
+  Upload: {
+    type: "object",
+    description: "A stored source file. Pass `ref` as promptImage or video.",
+    properties: {
+      id: { type: "string" },
+      ref: { type: "string", description: "upload://<id>, accepted wherever a media URL is" },
+      url: { type: "string", description: "Direct URL while the upload lives" },
+      kind: { type: "string", enum: ["image", "video"] },
+      contentType: { type: "string" },
+      size: { type: "integer" },
+      width: { type: "integer" },
+      height: { type: "integer" },
+      filename: { type: "string" },
+      createdAt: { type: "string", format: "date-time" },
+      expiresAt: { type: "string", format: "date-time" }
+    },
+    required: ["id", "ref", "url", "kind", "contentType", "size", "createdAt", "expiresAt"]
+  },
+  TaskList: {
+    type: "object",
+    properties: {
+      tasks: { type: "array", items: { $ref: "#/components/schemas/TaskRecord" } }
+    },
+    required: ["tasks"]
+  },
+  WebhookPayload: {
+    type: "object",
+    description:
+      "Completion callback body. Signed with X-Runway-Signature: t=<unix>,v1=<hex HMAC-SHA256 of `${t}.${body}`>.",
+    properties: {
+      event: { type: "string", enum: ["task.succeeded", "task.failed", "task.cancelled"] },
+      taskId: { type: "string" },
+      tool: { type: "string" },
+      status: { type: "string", enum: ["SUCCEEDED", "FAILED", "CANCELLED"] },
+      output: { type: "array", items: { type: "string", format: "uri" } },
+      failure: { type: "string" },
+      failureCode: { type: "string" },
+      createdAt: { type: "string", format: "date-time" },
+      completedAt: { type: "string", format: "date-time" }
+    },
+    required: ["event", "taskId", "tool", "status", "output", "createdAt", "completedAt"]
+  },
+  ToolError: {
+    type: "object",
+    description:
+      "A failure with a stable code. The HTTP status follows the code; retry only when `retryable` is true.",
+    properties: {
+      error: { type: "string", enum: Object.keys(ERROR_STATUS) },
+      message: { type: "string" },
+      retryable: { type: "boolean" },
+      retryAfterSeconds: { type: "integer" },
+      issues: { type: "array", items: { type: "object" }, description: "Invalid arguments" },
+      taskId: { type: "string" },
+      failureCode: { type: "string", description: "Runway's failure code for a failed task" }
+    },
+    required: ["error", "message", "retryable"]
+  },
+  RunwayKey: {
+    type: "object",
+    description: "A stored Runway key. The key itself is never returned.",
+    properties: {
+      ref: { type: "string", description: "Send as X-Runway-Key-Ref" },
+      name: { type: "string" },
+      createdAt: { type: "string", format: "date-time" }
+    },
+    required: ["ref", "createdAt"]
+  },
+  UsageLimitError: {
+    type: "object",
+    description: "A create call refused by the client's rate limit or credit budget.",
+    properties: {
+      error: { type: "string", enum: ["RateLimited", "BudgetExceeded"] },
+      message: { type: "string" },
+      retryable: { type: "boolean", description: "True for RateLimited; budgets reset at resetAt" },
+      client: { type: "string" },
+      period: { type: "string", enum: ["daily", "monthly"] },
+      limit: { type: "number" },
+      used: { type: "number" },
+      requested: { type: "number", description: "Estimated credits of the refused call" },
+      resetAt: { type: "string", format: "date-time" },
+      retryAfterSeconds: { type: "integer" }
+    },
+    required: ["error", "message", "client", "resetAt", "retryAfterSeconds"]
+  },
+  UsageReport: {
+    type: "object",
+    properties: {
+      client: { type: "string", description: "api-key:<name>, oauth:<sub>, session:<id> or anonymous" },
+      requestsLastMinute: { type: "integer" },
+      rpm: { type: "integer" },
+      daily: { $ref: "#/components/schemas/BudgetUsage" },
+      monthly: { $ref: "#/components/schemas/BudgetUsage" },
+      requests: { type: "integer" },
+      updatedAt: { type: "string", format: "date-time" }
+    },
+    required: ["client", "requestsLastMinute", "daily", "monthly", "requests", "updatedAt"]
+  },
+  QueueEntry: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      status: { type: "string", enum: ["QUEUED", "STARTING", "STARTED", "FAILED", "CANCELLED"] },
+      tool: { type: "string" },
+      enqueuedAt: { type: "string", format: "date-time" },
+      taskId: { type: "string" },
+      queuePosition: { type: "integer" },
+      etaSeconds: { type: "integer" },
+      client: { type: "string" },
+      priority: { type: "integer" }
+    },
+    required: ["id", "status", "tool", "enqueuedAt", "client", "priority"]
+  },
+  SessionInfo: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      identity: { type: "string", description: "API key name or OAuth subject" },
+      client: { type: "string", description: "clientInfo name/version from initialize" },
+      ownRunwayKey: { type: "boolean", description: "Whether the session uses the caller's Runway key" },
+      resumable: { type: "boolean", description: "Whether streams can be resumed with Last-Event-ID" },
+      activeRequests: { type: "integer" },
+      createdAt: { type: "string", format: "date-time" },
+      lastSeenAt: { type: "string", format: "date-time" },
+      expiresAt: { type: "string", format: "date-time" }
+    },
+    required: [
+      "id",
+      "ownRunwayKey",
+      "resumable",
+      "activeRequests",
+      "createdAt",
+      "lastSeenAt",
+      "expiresAt"
+    ]
+  },
+  CostEstimate: {
+    type: "object",
+    description: "Credits a generation was expected to cost, from the server's price table",
+    properties: {
+      model: { type: "string" },
+      credits: { type: "number" },
+      unit: { type: "string", enum: ["output", "second"] },
+      rate: { type: "number", description: "Credits per unit" },
+      seconds: { type: "number" },
+      resolution: { type: "string", enum: ["720p", "1080p"] },
+      priced: { type: "boolean", description: "False when the model has no price (estimated at 0)" }
+    },
+    required: ["model", "credits", "unit", "rate", "priced"]
+  },
+  Organization: {
+    type: "object",
+    properties: {
+      creditBalance: { type: "number", description: "Credits remaining" },
+      tier: {
+        type: "object",
+        properties: {
+          maxMonthlyCreditSpend: { type: "number" },
+          models: {
+            type: "object",
+            description: "Limits per model id",
+            additionalProperties: {
+              type: "object",
+              properties: {
+                maxConcurrentGenerations: { type: "integer" },
+                maxDailyGenerations: { type: "integer" }
+              }
+            }
+          }
+        }
+      },
+      usage: {
+        type: "object",
+        properties: {
+          models: {
+            type: "object",
+            description: "Generations in the past day per model id",
+            additionalProperties: {
+              type: "object",
+              properties: { dailyGenerations: { type: "integer" } }
+            }
+          }
+        }
+      }
+    },
+    required: ["creditBalance", "tier", "usage"]
+  },
+  OrganizationUsage: {
+    type: "object",
+    properties: {
+      startDate: { type: "string", format: "date" },
+      beforeDate: { type: "string", format: "date" },
+      totalCredits: { type: "number" },
+      byModel: {
+        type: "object",
+        description: "Credits per model id over the range",
+        additionalProperties: { type: "number" }
+      },
+      days: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            date: { type: "string", format: "date" },
+            usedCredits: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { model: { type: "string" }, amount: { type: "number" } }
+              }
+            }
+          }
+        }
+      }
+    },
+    required: ["totalCredits", "byModel", "days"]
+  },
+  Model: {
+    type: "object",
+    properties: {
+      id: { type: "string", description: "Value for a tool's `model` argument" },
+      name: { type: "string" },
+      tasks: { type: "array", items: { type: "string", enum: [...MODEL_TASKS] } },
+      inputs: { type: "array", items: { type: "string", enum: ["text", "image", "video"] } },
+      ratios: {
+        type: "array",
+        items: { type: "string" },
+        description: "Allowed `ratio` values; empty when the output follows the input"
+      },
+      defaultRatio: { type: "string" },
+      durations: { type: "array", items: { type: "integer" }, description: "Allowed seconds" },
+      defaultDuration: { type: "integer" },
+      referenceImages: {
+        type: "object",
+        properties: { min: { type: "integer" }, max: { type: "integer" } }
+      }
+    },
+    required: ["id", "name", "tasks", "inputs", "ratios", "durations"]
+  },
+  BudgetUsage: {
+    type: "object",
+    properties: {
+      used: { type: "number" },
+      limit: { type: "number" },
+      remaining: { type: "number" },
+      resetAt: { type: "string", format: "date-time" }
+    },
+    required: ["used", "resetAt"]
+  }
+};
+
+function toolCallEnvelope(tool: RunwayTool) {
+  return {
+    type: "object",
+    title: tool.name,
+    description: tool.description,
+    properties: {
+      jsonrpc: { type: "string", enum: ["2.0"] },
+      id: { type: "string", description: "Unique request identifier" },
+      method: { type: "string", enum: ["tools/call"] },
+      params: {
+        type: "object",
+        properties: {
+          name: { type: "string", enum: [tool.name] },
+          arguments: toolArgumentsSchema(tool)
+        },
+        required: ["name", "arguments"]
+      }
+    },
+    required: ["jsonrpc", "id", "method", "params"]
+  };
+}
+
+/**
+ * Answers for a failed tool call, keyed by the HTTP status of its code (see
+ * errors.ts). /gpt-action wraps the same body in a JSON-RPC error.
+ */
+function failureResponses(schema: "ToolError" | "JsonRpcError") {
+  const response = (description: string) => ({
+    description,
+    content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } }
+  });
+  return {
+    "400": response("Invalid arguments (InvalidArguments)"),
+    "404": response("Unknown tool, task or upload (UnknownTool, NotFound)"),
+    "422": response("Runway rejected the content or an asset (ContentModerated, InvalidAsset)"),
+    "429": {
+      ...response("Rate limited or over budget (RateLimited, BudgetExceeded, RunwayRateLimited)"),
+      headers: {
+        "Retry-After": {
+          schema: { type: "integer" },
+          description: "Seconds until a retry may succeed"
+        }
+      }
+    },
+    "500": response("Server error (Internal)"),
+    "502": response("The Runway task or account failed (TaskFailed, RunwayAuthFailed, ...)"),
+    "503": response("Runway is unavailable (RunwayUnavailable)"),
+    "504": response("Timed out (Timeout)")
+  };
+}
+
+const idempotencyKeyParameter = {
+  name: "Idempotency-Key",
+  in: "header",
+  required: false,
+  description:
+    "Retry-safe key for generation calls: the same key and arguments return the original task; different arguments get 422.",
+  schema: { type: "string", maxLength: 255 }
+};
+
+function singleOperationPaths(tools: readonly RunwayTool[]) {
+  return {
+    "/gpt-action": {
+      post: {
+        operationId: "callRunwayMCP",
+        summary: "Call a Runway tool",
+        description:
+          "Execute a Runway tool through a JSON-RPC `tools/call` envelope. " +
+          "Available tools:\n" +
+          tools.map((t) => `- \`${t.name}\`: ${t.description}`).join("\n"),
+        parameters: [idempotencyKeyParameter],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { oneOf: tools.map(toolCallEnvelope) }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Tool result",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/JsonRpcResult" }
+              }
+            }
+          },
+          ...failureResponses("JsonRpcError")
+        }
+      }
+    }
+  };
+}
+
+function perToolPaths(tools: readonly RunwayTool[]) {
+  return Object.fromEntries(
+    tools.map((tool) => [
+      `/tools/${tool.name}`,
+      {
+        post: {
+          operationId: toolOperationId(tool.name),
+          summary: tool.title,
+          description: tool.description,
+          ...(tool.createTask ? { parameters: [idempotencyKeyParameter] } : {}),
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: toolArgumentsSchema(tool) }
+            }
+          },
+          responses: {
+            "200": {
+              description: "Tool result",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/ToolResult" }
+                }
+              }
+            },
+            ...failureResponses("ToolError")
+          }
+        }
+      }
+    ])
+  );
+}
+
+function jobRequest(tool: RunwayTool) {
+  return {
+    type: "object",
+    title: tool.name,
+    description: tool.description,
+    properties: {
+      tool: { type: "string", enum: [tool.name] },
+      arguments: toolArgumentsSchema(tool)
+    },
+    required: ["tool", "arguments"]
+  };
+}
+
+const toolErrorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/ToolError" } }
+  }
+});
+
+function jobPaths(tools: readonly RunwayTool[]) {
+  return {
+    "/jobs": {
+      post: {
+        operationId: "createJob",
+        summary: "Start a generation job",
+        description:
+          "Start a Runway generation and return immediately with a job id. " +
+          "Poll `GET /jobs/{id}` until the status is SUCCEEDED, FAILED or CANCELLED.",
+        parameters: [idempotencyKeyParameter],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": { schema: { oneOf: tools.map(jobRequest) } }
+          }
+        },
+        responses: {
+          "202": {
+            description: "Job accepted",
+            headers: {
+              Location: { schema: { type: "string" }, description: "Job status URL" }
+            },
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/JobAccepted" }
+              }
+            }
+          },
+          ...failureResponses("ToolError"),
+          "429": {
+            description: "Rate limit or credit budget exceeded",
+            headers: {
+              "Retry-After": { schema: { type: "integer" }, description: "Seconds until reset" }
+            },
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/UsageLimitError" } }
+            }
+          }
+        }
+      }
+    },
+    "/jobs/{id}": {
+      get: {
+        operationId: "getJob",
+        summary: "Get job status",
+        description: "Current status, progress and output URLs of a job.",
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          "200": {
+            description: "Job status",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Job" } }
+            }
+          },
+          "404": toolErrorResponse("Unknown job"),
+          "500": toolErrorResponse("Server error")
+        }
+      }
+    },
+    "/jobs/{id}/events": {
+      get: {
+        operationId: "streamJobEvents",
+        summary: "Stream job status changes",
+        description:
+          "Server-sent events: `status` (the job) and `progress` (`{ taskId, status, progress, runwayProgress, message }`, progress 0-1) on every change, then `done` with the final job.",
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          "200": {
+            description: "Event stream of Job objects",
+            content: { "text/event-stream": { schema: { type: "string" } } }
+          }
+        }
+      }
+    }
+  };
+}
+
+function taskPaths() {
+  const responses = {
+    "200": {
+      description: "Matching tasks, newest first",
+      content: {
+        "application/json": { schema: { $ref: "#/components/schemas/TaskList" } }
+      }
+    },
+    "400": toolErrorResponse("Invalid query"),
+    "500": toolErrorResponse("Server error")
+  };
+  return {
+    "/tasks": {
+      get: {
+        operationId: "listTasks",
+        summary: "List recorded tasks",
+        description: "Generation history filtered by tool, model, status, date range or prompt text.",
+        parameters: queryParameters(taskQueryShape),
+        responses
+      }
+    },
+    "/tasks/search": {
+      get: {
+        operationId: "searchTasks",
+        summary: "Search recorded tasks by prompt",
+        parameters: queryParameters(taskQueryShape, ["text"]),
+        responses
+      }
+    }
+  };
+}
+
+function modelPaths() {
+  return {
+    "/models": {
+      get: {
+        operationId: "listModels",
+        summary: "List supported models",
+        description: "The tasks, ratios, durations and inputs each Runway model supports.",
+        parameters: [
+          {
+            name: "task",
+            in: "query",
+            required: false,
+            description: "Only models that can perform this task",
+            schema: { type: "string", enum: [...MODEL_TASKS] }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Matching models",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    models: { type: "array", items: { $ref: "#/components/schemas/Model" } }
+                  },
+                  required: ["models"]
+                }
+              }
+            }
+          },
+          "400": toolErrorResponse("Unknown task")
+        }
+      }
+    }
+  };
+}
+
+function organizationPaths() {
+  const ok = (description: string, schema: string) => ({
+    description,
+    content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } }
+  });
+  return {
+    "/organization": {
+      get: {
+        operationId: "getOrganization",
+        summary: "Credit balance and tier limits",
+        description: "For the Runway organization of the key the request uses.",
+        responses: {
+          "200": ok("Balance, tier limits and today's generations", "Organization"),
+          "500": toolErrorResponse("Runway error")
+        }
+      }
+    },
+    "/organization/usage": {
+      get: {
+        operationId: "getOrganizationUsage",
+        summary: "Credits used per model and day",
+        parameters: queryParameters(organizationUsageShape),
+        responses: {
+          "200": ok("Usage over the range, with per-model totals", "OrganizationUsage"),
+          "400": toolErrorResponse("Invalid date range"),
+          "500": toolErrorResponse("Runway error")
+        }
+      }
+    }
+  };
+}
+
+function uploadPaths() {
+  return {
+    "/uploads": {
+      post: {
+        operationId: "createUpload",
+        summary: "Upload a source image or video",
+        description:
+          "Validates type, size and dimensions and stores the file until it expires.",
+        requestBody: {
+          required: true,
+          content: {
+            "multipart/form-data": {
+              schema: {
+                type: "object",
+                properties: { file: { type: "string", format: "binary" } },
+                required: ["file"]
+              }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Stored",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Upload" } }
+            }
+          },
+          "400": toolErrorResponse("Missing file, or dimensions out of range"),
+          "413": toolErrorResponse("File too large"),
+          "415": toolErrorResponse("Unsupported or mislabelled file type")
+        }
+      }
+    },
+    "/uploads/{id}": {
+      get: {
+        operationId: "getUpload",
+        summary: "Download an upload",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": {
+            description: "The file",
+            content: { "*/*": { schema: { type: "string", format: "binary" } } }
+          },
+          "404": toolErrorResponse("Unknown or expired upload")
+        }
+      }
+    }
+  };
+}
+
+function assetPaths() {
+  return {
+    "/assets/{id}": {
+      get: {
+        operationId: "getAsset",
+        summary: "Download a mirrored output",
+        description: "Content-addressed and immutable; the ETag is the SHA-256 of the body.",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": {
+            description: "The media file",
+            content: { "*/*": { schema: { type: "string", format: "binary" } } }
+          },
+          "304": { description: "Not modified" },
+          "404": toolErrorResponse("Unknown asset, or asset storage is disabled")
+        }
+      }
+    }
+  };
+}
+
+function adminPaths() {
+  return {
+    "/admin/usage": {
+      get: {
+        operationId: "getUsage",
+        summary: "Per-client usage against limits",
+        description: "Requests in the last minute and credits spent today and this month (UTC).",
+        responses: {
+          "200": {
+            description: "Every client seen so far",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    clients: { type: "array", items: { $ref: "#/components/schemas/UsageReport" } }
+                  },
+                  required: ["clients"]
+                }
+              }
+            }
+          },
+          "500": toolErrorResponse("Server error")
+        }
+      }
+    },
+    "/admin/sessions": {
+      get: {
+        operationId: "listSessions",
+        summary: "Live MCP sessions",
+        description:
+          "Sessions on this instance with their owner, client and expiry, and the session limits.",
+        responses: {
+          "200": {
+            description: "Every live session",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    maxSessions: { type: "integer" },
+                    idleTtlSeconds: { type: "number" },
+                    maxAgeSeconds: { type: "number" },
+                    sessions: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/SessionInfo" }
+                    }
+                  },
+                  required: ["maxSessions", "idleTtlSeconds", "maxAgeSeconds", "sessions"]
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/admin/queue": {
+      get: {
+        operationId: "getQueue",
+        summary: "Task queue per Runway account",
+        description:
+          "Tasks holding a slot and tasks waiting for one, in arrival order. Empty when RUNWAY_MAX_CONCURRENCY is unset.",
+        responses: {
+          "200": {
+            description: "One entry per Runway account",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    maxConcurrency: { type: "integer" },
+                    accounts: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          running: {
+                            type: "array",
+                            items: { $ref: "#/components/schemas/QueueEntry" }
+                          },
+                          queued: {
+                            type: "array",
+                            items: { $ref: "#/components/schemas/QueueEntry" }
+                          },
+                          averageTaskSeconds: { type: "integer" }
+                        },
+                        required: ["running", "queued", "averageTaskSeconds"]
+                      }
+                    }
+                  },
+                  required: ["maxConcurrency", "accounts"]
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  };
+}
+
+function runwayKeyPaths() {
+  const keyResponse = (description: string) => ({
+    description,
+    content: { "application/json": { schema: { $ref: "#/components/schemas/RunwayKey" } } }
+  });
+  return {
+    "/runway-keys": {
+      post: {
+        operationId: "storeRunwayKey",
+        summary: "Store a Runway API key",
+        description:
+          "Encrypts the key at rest and returns a reference only the caller can use, via the X-Runway-Key-Ref header.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: { apiKey: { type: "string" }, name: { type: "string" } },
+                required: ["apiKey"]
+              }
+            }
+          }
+        },
+        responses: {
+          "201": keyResponse("Stored"),
+          "400": toolErrorResponse("Missing apiKey"),
+          "404": toolErrorResponse("Stored keys are not enabled")
+        }
+      },
+      get: {
+        operationId: "listRunwayKeys",
+        summary: "List the caller's stored Runway keys",
+        responses: {
+          "200": {
+            description: "Stored keys",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    keys: { type: "array", items: { $ref: "#/components/schemas/RunwayKey" } }
+                  },
+                  required: ["keys"]
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/runway-keys/{ref}": {
+      delete: {
+        operationId: "deleteRunwayKey",
+        summary: "Delete a stored Runway key",
+        parameters: [{ name: "ref", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "204": { description: "Deleted" },
+          "404": toolErrorResponse("Unknown reference")
+        }
+      }
+    }
+  };
+}
+
+// Fetched by Runway and browsers without credentials.
+const PUBLIC_OPERATIONS = new Set(["getAsset", "getUpload", "listModels"]);
+
+function securitySchemes({ apiKeys, oauth }: NonNullable<OpenApiOptions["auth"]>) {
+  return {
+    ...(apiKeys
+      ? {
+          bearerAuth: {
+            type: "http",
+            scheme: "bearer",
+            description: "API key issued for this server, sent as a bearer token."
+          }
+        }
+      : {}),
+    ...(oauth
+      ? {
+          oauth2: {
+            type: "oauth2",
+            description: "Access token from the configured authorization server.",
+            flows: {
+              authorizationCode: {
+                authorizationUrl: oauth.authorizationUrl,
+                tokenUrl: oauth.tokenUrl,
+                scopes: {
+                  "runway.*": "Call every Runway tool",
+                  ...Object.fromEntries(runwayTools.map((t) => [t.name, t.title]))
+                }
+              }
+            }
+          }
+        }
+      : {})
+  };
+}
+
+type Operation = { operationId: string; responses: Record<string, unknown>; security?: unknown };
+
+/**
+ * Mark public operations as such and add 401/403 answers to the rest.
+ */
+function withAuthResponses<P extends Record<string, Record<string, Operation>>>(paths: P): P {
+  for (const [path, methods] of Object.entries(paths)) {
+    const error = path === "/gpt-action" ? "JsonRpcError" : "ToolError";
+    const response = (description: string) => ({
+      description,
+      content: { "application/json": { schema: { $ref: `#/components/schemas/${error}` } } }
+    });
+    for (const op of Object.values(methods)) {
+      if (PUBLIC_OPERATIONS.has(op.operationId)) {
+        op.security = [];
+      } else {
+        op.responses["401"] = response("Missing, invalid or expired bearer token");
+        op.responses["403"] = response("The token's scopes do not include this tool");
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Build the OpenAPI document from the live tool catalog, so the spec always
+ * matches what the server validates.
+ */
+export function buildOpenApiSpec({ serverUrl, operations = "single", auth }: OpenApiOptions) {
+  const paths = {
+    ...(operations === "per-tool" ? perToolPaths(runwayTools) : singleOperationPaths(runwayTools)),
+    ...jobPaths(generationTools),
+    ...taskPaths(),
+    ...modelPaths(),
+    ...organizationPaths(),
+    ...uploadPaths(),
+    ...assetPaths(),
+    ...adminPaths(),
+    ...runwayKeyPaths()
+  };
+  const schemes = auth && securitySchemes(auth);
+  const secured = schemes && Object.keys(schemes).length > 0;
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Runway MCP Server",
+      description:
+        "Generate images and videos using Runway ML. Server handles task polling and returns completed results with media URLs.",
+      version: "0.1.0"
+    },
+    servers: [{ url: serverUrl }],
+    ...(secured ? { security: Object.keys(schemes).map((name) => ({ [name]: [] })) } : {}),
+    paths: secured ? withAuthResponses(paths) : paths,
+    webhooks: {
+      taskCompleted: {
+        post: {
+          summary: "Sent to callbackUrl when a task succeeds, fails or is cancelled",
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WebhookPayload" }
+              }
+            }
+          },
+          responses: {
+            "2XX": { description: "Delivered; any other response is retried with backoff" }
+          }
+        }
+      }
+    },
+    components: {
+      schemas: componentSchemas,
+      ...(secured ? { securitySchemes: schemes } : {})
+    }
+  };
+}
@@ -0,0 +1,92 @@
+// File: src/organization.ts
+import type RunwayML from "@runwayml/sdk";
+import { z } from "zod";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_USAGE_DAYS = 90;
+
+const isoDate = (name: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${name} must be a date like 2025-01-31`)
+    .refine((s) => !Number.isNaN(Date.parse(s)), `${name} must be a valid date`)
+    .optional();
+
+/**
+ * Date range shared by the runway.organization.usage tool and
+ * GET /organization/usage. Dates are UTC days.
+ */
+export const organizationUsageShape = {
+  startDate: isoDate("startDate").describe("First day to include (default: 30 days ago)."),
+  beforeDate: isoDate("beforeDate").describe(
+    "Day to stop before, not included (default: 30 days after startDate)."
+  )
+};
+
+/**
+ * Runway allows at most 90 days per query and the range must not be empty.
+ */
+export function refineUsageRange(
+  { startDate, beforeDate }: Record<string, unknown>,
+  ctx: z.RefinementCtx
+): void {
+  if (typeof beforeDate !== "string") return;
+  const start = typeof startDate === "string" ? Date.parse(startDate) : Date.now() - 30 * DAY_MS;
+  const days = (Date.parse(beforeDate) - start) / DAY_MS;
+  if (days <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["beforeDate"],
+      message: "beforeDate must be after startDate"
+    });
+  } else if (days > MAX_USAGE_DAYS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["beforeDate"],
+      message: `At most ${MAX_USAGE_DAYS} days of usage can be queried at a time`
+    });
+  }
+}
+
+/**
+ * The organization's credit balance and tier: the monthly spend cap and each
+ * model's concurrency and daily generation limits, with today's usage.
+ */
+export function getOrganization(runway: RunwayML): Promise<RunwayML.OrganizationRetrieveResponse> {
+  return runway.organization.retrieve();
+}
+
+/**
+ * Credits used per model and day over a date range, with totals.
+ */
+export interface OrganizationUsage {
+  startDate?: string;
+  beforeDate?: string;
+  totalCredits: number;
+  /** Credits per model over the whole range. */
+  byModel: Record<string, number>;
+  /** Credits per model for each day that had usage. */
+  days: RunwayML.OrganizationRetrieveUsageResponse["results"];
+}
+
+export async function getOrganizationUsage(
+  runway: RunwayML,
+  range: { startDate?: string; beforeDate?: string }
+): Promise<OrganizationUsage> {
+  const { results } = await runway.organization.retrieveUsage({
+    ...(range.startDate ? { startDate: range.startDate } : {}),
+    ...(range.beforeDate ? { beforeDate: range.beforeDate } : {})
+  });
+  const byModel: Record<string, number> = {};
+  for (const day of results) {
+    for (const { model, amount } of day.usedCredits) {
+      byModel[model] = (byModel[model] ?? 0) + amount;
+    }
+  }
+  return {
+    ...range,
+    totalCredits: Object.values(byModel).reduce((sum, n) => sum + n, 0),
+    byModel,
+    days: results
+  };
+}
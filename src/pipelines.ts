@@ -0,0 +1,261 @@
+// File: src/pipelines.ts
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { z } from "zod";
+
+const STEP_ID = /^[A-Za-z_][\w-]*$/;
+const TEMPLATE = /\{\{\s*([^}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE = /^\{\{\s*([^}]+?)\s*\}\}$/;
+
+export const pipelineStepSchema = z.object({
+  id: z
+    .string()
+    .regex(STEP_ID, "step id must be a letter or _ followed by letters, digits, _ or -")
+    .describe("Name later steps use to reference this one, e.g. keyframe."),
+  tool: z.string().min(1).describe("Generation tool name, e.g. runway.image_to_video."),
+  arguments: z
+    .record(z.unknown())
+    .default({})
+    .describe(
+      "Tool arguments. Strings may contain {{steps.<id>.output[0]}}, {{steps.<id>.taskId}} or {{params.<name>}}."
+    )
+});
+
+export type PipelineStep = z.infer<typeof pipelineStepSchema>;
+
+/**
+ * A named, saved pipeline. `params` holds defaults that a run may override.
+ */
+export interface PipelineDefinition {
+  name: string;
+  /** Principal that saved it (see principal()); unset when auth is off. */
+  owner?: string;
+  description?: string;
+  steps: PipelineStep[];
+  params: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Arguments of runway.pipeline.
+ */
+export const pipelineShape = {
+  name: z
+    .string()
+    .regex(STEP_ID, "name must be a letter or _ followed by letters, digits, _ or -")
+    .optional()
+    .describe("Saved pipeline to run, or the name to save steps under."),
+  steps: z
+    .array(pipelineStepSchema)
+    .min(1)
+    .optional()
+    .describe("Steps to run in order. Omit to run the saved pipeline called name."),
+  params: z
+    .record(z.unknown())
+    .default({})
+    .describe("Values for {{params.<name>}}; override a saved pipeline's defaults."),
+  save: z
+    .boolean()
+    .default(false)
+    .describe("Save steps (and params as defaults) under name before running."),
+  description: z.string().optional(),
+  timeoutMs: z.number().int().optional().describe("Per-step wait timeout (ms).")
+};
+
+/**
+ * Outputs of the steps that have run so far, as seen by templates.
+ */
+export type StepResults = Record<string, { taskId: string; output: string[] }>;
+
+/**
+ * A template that cannot be resolved, or a pipeline that cannot run.
+ */
+export class PipelineDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PipelineDefinitionError";
+  }
+}
+
+function evaluate(
+  expr: string,
+  steps: StepResults,
+  params: Record<string, unknown>
+): unknown {
+  let m = /^params\.([\w-]+)$/.exec(expr);
+  if (m) {
+    if (!(m[1] in params)) {
+      throw new PipelineDefinitionError(`No value for {{${expr}}}`);
+    }
+    return params[m[1]];
+  }
+  m = /^steps\.([\w-]+)\.(taskId|output\[(\d+)\])$/.exec(expr);
+  if (m) {
+    const step = steps[m[1]];
+    if (!step) {
+      throw new PipelineDefinitionError(`{{${expr}}} refers to a step that has not run`);
+    }
+    if (m[2] === "taskId") return step.taskId;
+    const value = step.output[Number(m[3])];
+    if (value === undefined) {
+      throw new PipelineDefinitionError(
+        `{{${expr}}}: step ${m[1]} produced ${step.output.length} output(s)`
+      );
+    }
+    return value;
+  }
+  throw new PipelineDefinitionError(`Unknown template {{${expr}}}`);
+}
+
+/**
+ * Substitute templates in a step's arguments. A string that is a single
+ * template takes the referenced value as-is (so params can be numbers).
+ */
+export function renderArguments(
+  args: Record<string, unknown>,
+  steps: StepResults,
+  params: Record<string, unknown>
+): Record<string, unknown> {
+  const render = (v: unknown): unknown => {
+    if (typeof v === "string") {
+      const whole = WHOLE_TEMPLATE.exec(v);
+      if (whole) return evaluate(whole[1], steps, params);
+      return v.replace(TEMPLATE, (_, expr: string) => String(evaluate(expr, steps, params)));
+    }
+    if (Array.isArray(v)) return v.map(render);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, render(x)]));
+    }
+    return v;
+  };
+  return render(args) as Record<string, unknown>;
+}
+
+/**
+ * Static checks before anything runs: unique ids, references only to earlier
+ * steps, and a value for every {{params.*}}.
+ */
+export function checkPipeline(steps: PipelineStep[], params: Record<string, unknown>): void {
+  const seen = new Set<string>();
+  for (const step of steps) {
+    if (seen.has(step.id)) {
+      throw new PipelineDefinitionError(`Duplicate step id ${step.id}`);
+    }
+    for (const [, expr] of JSON.stringify(step.arguments).matchAll(TEMPLATE)) {
+      const ref = /^steps\.([\w-]+)\./.exec(expr);
+      if (ref && !seen.has(ref[1])) {
+        throw new PipelineDefinitionError(
+          `Step ${step.id} references {{${expr}}}, which is not an earlier step`
+        );
+      }
+      const param = /^params\.([\w-]+)$/.exec(expr);
+      if (param && !(param[1] in params)) {
+        throw new PipelineDefinitionError(`Step ${step.id} needs a value for {{${expr}}}`);
+      }
+    }
+    seen.add(step.id);
+  }
+}
+
+/**
+ * Storage for saved pipelines, keyed by owner and name: each caller only
+ * sees, overwrites and runs its own.
+ */
+export interface PipelineStore {
+  save(definition: PipelineDefinition): Promise<void>;
+  get(name: string, owner: string | undefined): Promise<PipelineDefinition | undefined>;
+  list(owner: string | undefined): Promise<PipelineDefinition[]>;
+}
+
+const pipelineKey = (name: string, owner: string | undefined) =>
+  owner ? `${owner}/${name}` : name;
+
+export class MemoryPipelineStore implements PipelineStore {
+  protected definitions = new Map<string, PipelineDefinition>();
+
+  async save(definition: PipelineDefinition): Promise<void> {
+    this.definitions.set(pipelineKey(definition.name, definition.owner), definition);
+  }
+
+  async get(name: string, owner: string | undefined): Promise<PipelineDefinition | undefined> {
+    return this.definitions.get(pipelineKey(name, owner));
+  }
+
+  async list(owner: string | undefined): Promise<PipelineDefinition[]> {
+    return [...this.definitions.values()]
+      .filter((d) => d.owner === owner)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+/**
+ * Saved pipelines in a single JSON file, rewritten atomically on save.
+ */
+export class JsonFilePipelineStore extends MemoryPipelineStore {
+  private loaded: Promise<void> | undefined;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= readFile(this.filePath, "utf8")
+      .then(
+        (raw) => {
+          for (const d of JSON.parse(raw) as PipelineDefinition[]) {
+            this.definitions.set(pipelineKey(d.name, d.owner), d);
+          }
+        },
+        (err: NodeJS.ErrnoException) => {
+          if (err.code !== "ENOENT") throw err;
+        }
+      )
+      .catch((err: unknown) => {
+        this.loaded = undefined;
+        throw err;
+      });
+    return this.loaded;
+  }
+
+  async save(definition: PipelineDefinition): Promise<void> {
+    await this.load();
+    await super.save(definition);
+    const snapshot = JSON.stringify([...this.definitions.values()], null, 2);
+    // One write at a time, so a slow save cannot land after (and undo) a later one.
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await writeFile(tmp, snapshot);
+        await rename(tmp, this.filePath);
+      });
+    return this.writes;
+  }
+
+  async get(name: string, owner: string | undefined): Promise<PipelineDefinition | undefined> {
+    await this.load();
+    return super.get(name, owner);
+  }
+
+  async list(owner: string | undefined): Promise<PipelineDefinition[]> {
+    await this.load();
+    return super.list(owner);
+  }
+}
+
+let sharedStore: PipelineStore | undefined;
+
+/**
+ * The process-wide pipeline store. PIPELINE_STORE_PATH selects the JSON file
+ * (default data/pipelines.json); PIPELINE_STORE=memory keeps it in-process.
+ */
+export function getPipelineStore(): PipelineStore {
+  sharedStore ??=
+    process.env.PIPELINE_STORE === "memory"
+      ? new MemoryPipelineStore()
+      : new JsonFilePipelineStore(process.env.PIPELINE_STORE_PATH || "data/pipelines.json");
+  return sharedStore;
+}
@@ -0,0 +1,120 @@
+// File: src/progress.ts
+import type RunwayML from "@runwayml/sdk";
+import type { QueueStatus } from "./scheduler.js";
+import type { TaskStatus } from "./taskWatch.js";
+
+/**
+ * A progress event for one Runway task, shared by MCP notifications and the
+ * SSE streams. `progress` runs 0 → 1 across the whole task: queue states take
+ * the first few percent, Runway's own fraction the bulk of it.
+ */
+export interface TaskProgress {
+  taskId: string;
+  status: TaskStatus;
+  progress: number;
+  /** Runway's reported fraction for a running task, if any. */
+  runwayProgress: number | null;
+  message: string;
+}
+
+export type ProgressListener = (update: TaskProgress) => void | Promise<void>;
+
+export function taskProgress(task: RunwayML.TaskRetrieveResponse): TaskProgress {
+  const fraction = typeof task.progress === "number" ? task.progress : null;
+  const progress =
+    task.status === "SUCCEEDED"
+      ? 1
+      : task.status === "RUNNING"
+        ? 0.05 + 0.9 * (fraction ?? 0)
+        : task.status === "THROTTLED"
+          ? 0.01
+          : 0;
+  return {
+    taskId: task.id,
+    status: task.status,
+    progress,
+    runwayProgress: fraction,
+    message:
+      task.status === "RUNNING" && fraction !== null
+        ? `RUNNING ${Math.round(fraction * 100)}%`
+        : task.status
+  };
+}
+
+/**
+ * Progress for a call still waiting for a Runway slot; `taskId` is the
+ * queue id.
+ */
+export function queueProgress(entry: QueueStatus): TaskProgress {
+  return {
+    taskId: entry.id,
+    status: "PENDING",
+    progress: 0,
+    runwayProgress: null,
+    message:
+      entry.queuePosition !== undefined
+        ? `QUEUED at position ${entry.queuePosition} (about ${entry.etaSeconds}s)`
+        : "QUEUED"
+  };
+}
+
+/**
+ * Forward progress as MCP notifications/progress for one request. MCP wants
+ * the value to increase with every notification, so repeats are dropped.
+ */
+export function mcpProgressListener(
+  progressToken: string | number,
+  send: (notification: {
+    method: "notifications/progress";
+    params: { progressToken: string | number; progress: number; total: number; message: string };
+  }) => Promise<void>
+): ProgressListener {
+  let last = -1;
+  return async ({ progress, message }) => {
+    if (progress <= last) return;
+    last = progress;
+    await send({
+      method: "notifications/progress",
+      params: { progressToken, progress, total: 1, message }
+    }).catch((err: unknown) => {
+      console.error("Progress notification failed:", (err as Error).message);
+    });
+  };
+}
+
+/**
+ * Report step `index` of `count` sequential steps as a slice of the whole.
+ */
+export function stepProgress(
+  listener: ProgressListener,
+  index: number,
+  count: number,
+  label: string
+): ProgressListener {
+  return (update) =>
+    listener({
+      ...update,
+      progress: (index + update.progress) / count,
+      message: `${label}: ${update.message}`
+    });
+}
+
+/**
+ * Report `count` concurrent tasks as one average; returns a listener factory
+ * per item.
+ */
+export function combinedProgress(
+  listener: ProgressListener,
+  count: number
+): (index: number) => ProgressListener {
+  const fractions = new Array<number>(count).fill(0);
+  return (index) => (update) => {
+    fractions[index] = update.progress;
+    const done = fractions.filter((f) => f >= 1).length;
+    return listener({
+      ...update,
+      progress: fractions.reduce((a, b) => a + b, 0) / count,
+      message: `${done}/${count} done; item ${index + 1}: ${update.message}`
+    });
+  };
+}
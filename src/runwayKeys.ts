@@ -0,0 +1,218 @@
+// File: src/runwayKeys.ts
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type RunwayML from "@runwayml/sdk";
+import { createRunwayClient, getSharedRunwayClient } from "./runwayTools.js";
+
+/** Request headers (and initialize `_meta` keys) that carry a caller's own Runway key. */
+export const RUNWAY_KEY_HEADER = "x-runway-api-key";
+export const RUNWAY_KEY_REF_HEADER = "x-runway-key-ref";
+export const RUNWAY_KEY_META = "runway/apiKey";
+export const RUNWAY_KEY_REF_META = "runway/keyRef";
+
+/**
+ * A Runway key that cannot be used: unknown reference, wrong owner, or none
+ * given where the shared key is off. `status` is the HTTP status to answer with.
+ */
+export class RunwayKeyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "RunwayKeyError";
+  }
+}
+
+/**
+ * A stored Runway key as the vault keeps it: encrypted, with its owner.
+ */
+interface StoredRunwayKey {
+  ref: string;
+  name?: string;
+  /** Principal that stored it; only it may use the key. */
+  owner: string;
+  createdAt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * What callers see of a stored key. The key itself is never returned.
+ */
+export type RunwayKeyView = Pick<StoredRunwayKey, "ref" | "name" | "createdAt">;
+
+const view = ({ ref, name, createdAt }: StoredRunwayKey): RunwayKeyView => ({
+  ref,
+  ...(name ? { name } : {}),
+  createdAt
+});
+
+/**
+ * Runway keys encrypted with AES-256-GCM in a single JSON file. A reference
+ * is only good for the authenticated principal that stored it.
+ */
+export class RunwayKeyVault {
+  private keys = new Map<string, StoredRunwayKey>();
+  private loaded: Promise<void> | undefined;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly secret: Buffer
+  ) {
+    if (secret.length !== 32) {
+      throw new Error("RUNWAY_KEY_ENCRYPTION_KEY must be 32 bytes (hex or base64)");
+    }
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= readFile(this.filePath, "utf8")
+      .then(
+        (raw) => {
+          for (const k of JSON.parse(raw) as StoredRunwayKey[]) {
+            this.keys.set(k.ref, k);
+          }
+        },
+        (err: NodeJS.ErrnoException) => {
+          if (err.code !== "ENOENT") throw err;
+        }
+      )
+      .catch((err: unknown) => {
+        this.loaded = undefined;
+        throw err;
+      });
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.keys.values()], null, 2);
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await writeFile(tmp, snapshot, { mode: 0o600 });
+        await rename(tmp, this.filePath);
+      });
+    return this.writes;
+  }
+
+  async save(apiKey: string, { name, owner }: { name?: string; owner: string }) {
+    await this.load();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.secret, iv);
+    const ciphertext = Buffer.concat([cipher.update(apiKey, "utf8"), cipher.final()]);
+    const stored: StoredRunwayKey = {
+      ref: `rk_${randomBytes(16).toString("hex")}`,
+      ...(name ? { name } : {}),
+      owner,
+      createdAt: new Date().toISOString(),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      ciphertext: ciphertext.toString("base64")
+    };
+    this.keys.set(stored.ref, stored);
+    await this.persist();
+    return view(stored);
+  }
+
+  private async owned(ref: string, owner: string) {
+    await this.load();
+    const stored = this.keys.get(ref);
+    // Someone else's reference looks exactly like an unknown one.
+    return stored && stored.owner === owner ? stored : undefined;
+  }
+
+  /** Decrypt a key for use; undefined when the reference is not the owner's. */
+  async resolve(ref: string, owner: string): Promise<string | undefined> {
+    const stored = await this.owned(ref, owner);
+    if (!stored) return undefined;
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      this.secret,
+      Buffer.from(stored.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(stored.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(stored.ciphertext, "base64")),
+      decipher.final()
+    ]).toString("utf8");
+  }
+
+  async list(owner: string): Promise<RunwayKeyView[]> {
+    await this.load();
+    return [...this.keys.values()].filter((k) => k.owner === owner).map(view);
+  }
+
+  async delete(ref: string, owner: string): Promise<boolean> {
+    if (!(await this.owned(ref, owner))) return false;
+    this.keys.delete(ref);
+    await this.persist();
+    return true;
+  }
+}
+
+let sharedVault: RunwayKeyVault | null | undefined;
+
+/**
+ * The key vault, or null when RUNWAY_KEY_ENCRYPTION_KEY (32 bytes, hex or
+ * base64) is unset. Keys live in RUNWAY_KEY_STORE_PATH (default
+ * data/runway-keys.json).
+ */
+export function getRunwayKeyVault(): RunwayKeyVault | null {
+  if (sharedVault !== undefined) return sharedVault;
+  const secret = process.env.RUNWAY_KEY_ENCRYPTION_KEY?.trim();
+  sharedVault = secret
+    ? new RunwayKeyVault(
+        process.env.RUNWAY_KEY_STORE_PATH || "data/runway-keys.json",
+        Buffer.from(secret, /^[0-9a-f]{64}$/i.test(secret) ? "hex" : "base64")
+      )
+    : null;
+  return sharedVault;
+}
+
+/**
+ * Whether callers without their own key may use the server's
+ * RUNWAYML_API_SECRET. RUNWAY_SHARED_KEY=deny turns the fallback off.
+ */
+export function sharedKeyAllowed(): boolean {
+  return process.env.RUNWAY_SHARED_KEY?.trim().toLowerCase() !== "deny";
+}
+
+/**
+ * The Runway client for a caller: built from their own key, a stored key
+ * they reference, or (if allowed) the server's shared key.
+ */
+export async function runwayClientFor(
+  { apiKey, keyRef }: { apiKey?: string; keyRef?: string },
+  owner: string | undefined
+): Promise<RunwayML> {
+  if (apiKey?.trim()) {
+    return createRunwayClient(apiKey.trim());
+  }
+  if (keyRef?.trim()) {
+    const vault = getRunwayKeyVault();
+    if (!vault) {
+      throw new RunwayKeyError("Stored Runway keys are not enabled on this server");
+    }
+    // Without auth every caller looks the same, so no reference is anyone's.
+    if (!owner) {
+      throw new RunwayKeyError("Stored Runway keys need an authenticated caller", 403);
+    }
+    const resolved = await vault.resolve(keyRef.trim(), owner);
+    if (!resolved) {
+      throw new RunwayKeyError(`Unknown Runway key reference ${keyRef.trim()}`, 404);
+    }
+    return createRunwayClient(resolved);
+  }
+  if (!sharedKeyAllowed()) {
+    throw new RunwayKeyError(
+      `This server has no shared Runway key; send ${RUNWAY_KEY_HEADER} or ${RUNWAY_KEY_REF_HEADER}`,
+      403
+    );
+  }
+  return getSharedRunwayClient();
+}
@@ -1,439 +1,1736 @@
 // File: src/runwayTools.ts
-import RunwayML, { TaskFailedError, type RunwayMLOptions } from "@runwayml/sdk";
+import RunwayML, { AbortError, TaskFailedError, type ClientOptions } from "@runwayml/sdk";
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  batchShape,
+  distinguishingParams,
+  expandBatch,
+  formatBatchTable,
+  mapWithConcurrency,
+  refineBatchArgs,
+  type BatchArgs,
+  type BatchItemResult,
+  type GenerationSpec
+} from "./batch.js";
+import {
+  checkPipeline,
+  pipelineShape,
+  PipelineDefinitionError,
+  renderArguments,
+  type PipelineStep,
+  type PipelineStore,
+  type StepResults
+} from "./pipelines.js";
+import { mirrorOutputs, type AssetStorage, type MirroredOutput } from "./assets.js";
+import { canUseTool, isAdmin, principal, type Identity } from "./auth.js";
+import { estimateCost, type CostEstimate } from "./credits.js";
+import {
+  contentModerationSchema,
+  durationSchema,
+  listModels,
+  MODEL_TASKS,
+  modelSchema,
+  ratioSchema,
+  referenceImagesSchema,
+  refineModelArgs,
+  withModelDefaults,
+  type ModelTask
+} from "./models.js";
+import { UsageLimitError, type Reservation, type UsageLimiter } from "./usage.js";
+import {
+  CREATE_REQUEST_OPTIONS,
+  describeError,
+  errorBody,
+  withCreateRetries,
+  type ErrorCode
+} from "./errors.js";
+import {
+  getOrganization,
+  getOrganizationUsage,
+  organizationUsageShape,
+  refineUsageRange
+} from "./organization.js";
+import {
+  describeUpload,
+  resolveUploadRefs,
+  UPLOAD_REF_PREFIX,
+  type UploadStore
+} from "./uploads.js";
+import {
+  assertPublicCallbackUrl,
+  notifyWebhook,
+  webhookShape,
+  type WebhookTarget
+} from "./webhooks.js";
+import {
+  isQueueId,
+  type QueueStatus,
+  type QueueTicket,
+  type TaskScheduler
+} from "./scheduler.js";
+import {
+  claimIdempotencyKey,
+  idempotencySettings,
+  idempotencyShape,
+  type IdempotencyStore
+} from "./idempotency.js";
+import {
+  summarizeInputs,
+  taskFilterShape,
+  taskQueryShape,
+  type TaskLedger,
+  type TaskRecordUpdate
+} from "./taskLedger.js";
+import { waitForTask, type TaskStatus } from "./taskWatch.js";
+import {
+  combinedProgress,
+  mcpProgressListener,
+  queueProgress,
+  stepProgress,
+  taskProgress,
+  type ProgressListener
+} from "./progress.js";
 
 /**
- * Create a single shared Runway client.
+ * Create a Runway client, from the caller's own key when one is given.
  */
-export function createRunwayClient(): RunwayML {
-  const options: RunwayMLOptions = {};
+export function createRunwayClient(apiKey?: string): RunwayML {
+  const options: ClientOptions = apiKey ? { apiKey } : {};
   // The SDK defaults to process.env['RUNWAYML_API_SECRET']
   // Allow overriding the base URL if provided.
   if (process.env.RUNWAY_BASE_URL && process.env.RUNWAY_BASE_URL.trim() !== "") {
-    // @ts-expect-error: baseURL is supported by Stainless SDKs
     options.baseURL = process.env.RUNWAY_BASE_URL.trim();
   }
   return new RunwayML(options);
 }
 
+let sharedRunwayClient: RunwayML | undefined;
+
 /**
- * Register tools on an MCP server that wrap RunwayML SDK calls.
- * Tools are designed to be safe to call by GPT Actions via MCP.
+ * The client for the server's own key, shared by every session and request
+ * so they reuse its connections.
  */
-export function registerRunwayTools(server: McpServer, runway: RunwayML) {
-  // Utility to format output links in MCP result payloads.
-  const toResourceLinks = (urls: string[]) =>
-    urls.map((u, i) => ({
-      type: "resource_link" as const,
-      resource: u,
-      name: `output_${String(i + 1).padStart(2, "0")}`
-    }));
+export function getSharedRunwayClient(): RunwayML {
+  sharedRunwayClient ??= createRunwayClient();
+  return sharedRunwayClient;
+}
 
+/**
+ * Per-call context handed to every tool handler, regardless of whether the
+ * call arrived over MCP or /gpt-action.
+ */
+export interface ToolContext {
+  runway: RunwayML;
+  /** Where task creations and outcomes are recorded, if anywhere. */
+  ledger?: TaskLedger;
+  /** MCP session id, when the call arrived over MCP. */
+  sessionId?: string;
+  /** Calling client or surface (MCP clientInfo name, "gpt-action", ...). */
+  client?: string;
+  /** Authenticated caller; unset when auth is off. Limits which tools may run. */
+  identity?: Identity;
+  /** Per-client rate limits and credit budgets, checked before every create call. */
+  usage?: UsageLimiter;
+  /** Durable storage for outputs; when set, succeeded outputs are mirrored. */
+  assets?: AssetStorage | null;
+  /** Public origin of this server, used to build stable asset URLs. */
+  baseUrl?: string;
+  /** Where upload:// references in tool arguments are looked up. */
+  uploads?: UploadStore;
+  /** Saved pipelines for runway.pipeline, if enabled. */
+  pipelines?: PipelineStore;
+  /** Where idempotency keys are claimed; without one, keys are ignored. */
+  idempotency?: IdempotencyStore;
+  /** Queues create calls beyond Runway's concurrency limit; unset sends them straight away. */
+  scheduler?: TaskScheduler | null;
+  /** Receives status/progress changes while a call waits on a Runway task. */
+  onProgress?: ProgressListener;
+  /** Aborted when the caller cancels the call or its session closes. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A single entry in the tool catalog. The zod shape is the source of truth for
+ * argument validation on every surface the tool is exposed on.
+ */
+export interface RunwayTool<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Shape;
+  /** Checks across fields (e.g. a ratio the chosen model supports); see toolArgsSchema. */
+  refine?: (args: Record<string, unknown>, ctx: z.RefinementCtx) => void;
+  handler: (
+    args: z.objectOutputType<Shape, z.ZodTypeAny>,
+    ctx: ToolContext
+  ) => Promise<CallToolResult>;
   /**
-   * Text → Image
+   * Present on generation tools only: starts the Runway task without waiting,
+   * so other surfaces (e.g. the job API) can reuse the exact same create call.
    */
-  server.registerTool(
-    "runway.text_to_image",
-    {
-      title: "Runway: Text to Image",
-      description:
-        "Generate an image from a text prompt using Runway Gen-4 Image.",
-      inputSchema: {
-        promptText: z.string().min(1, "promptText is required"),
-        model: z
-          .string()
-          .default("gen4_image")
-          .describe("Runway model id. Defaults to gen4_image."),
-        ratio: z
-          .string()
-          .optional()
-          .describe(
-            "Aspect ratio string. Examples: '1024:1024', '1360:768', '768:1360'."
-          ),
-        seed: z.number().int().optional(),
-        wait: z
-          .boolean()
-          .default(true)
-          .describe(
-            "If true, wait for task to finish and return output URLs; otherwise return a task id."
-          ),
-        timeoutMs: z
-          .number()
-          .int()
-          .optional()
-          .describe("Optional wait timeout (ms); default ~10 minutes.")
+  createTask?: (
+    args: z.objectOutputType<Shape, z.ZodTypeAny>,
+    ctx: ToolContext
+  ) => AwaitableTask;
+}
+
+export type AwaitableTask = ReturnType<RunwayML["textToImage"]["create"]>;
+
+/**
+ * Thrown by callRunwayTool when the requested tool does not exist.
+ */
+export class UnknownToolError extends Error {
+  constructor(
+    public readonly toolName: string,
+    message = `Tool ${toolName} not found`
+  ) {
+    super(message);
+    this.name = "UnknownToolError";
+  }
+}
+
+/**
+ * Thrown by callRunwayTool when arguments fail the tool's zod schema.
+ */
+export class ToolInputError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly issues: z.ZodIssue[]
+  ) {
+    super(
+      `Invalid arguments for ${toolName}: ` +
+        issues
+          .map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message))
+          .join("; ")
+    );
+    this.name = "ToolInputError";
+  }
+}
+
+/**
+ * Thrown when the authenticated caller's scopes do not include the tool.
+ */
+export class ToolForbiddenError extends Error {
+  constructor(
+    public readonly toolName: string,
+    subject: string
+  ) {
+    super(`${subject} is not allowed to call ${toolName}`);
+    this.name = "ToolForbiddenError";
+  }
+}
+
+/**
+ * Throw ToolForbiddenError unless the context's identity may call the tool.
+ */
+export function assertToolAllowed(toolName: string, ctx: ToolContext): void {
+  if (!canUseTool(ctx.identity, toolName)) {
+    throw new ToolForbiddenError(toolName, ctx.identity!.subject);
+  }
+}
+
+/**
+ * A task the caller may not see. Reported like a task Runway doesn't know,
+ * so task ids of other callers can't be probed.
+ */
+export class TaskNotFoundError extends Error {
+  constructor(public readonly taskId: string) {
+    super(`Task ${taskId} not found`);
+    this.name = "TaskNotFoundError";
+  }
+}
+
+/**
+ * The identity whose tasks the caller may see, or undefined for all of them:
+ * when auth is off, and for identities granted the "admin" scope by name.
+ */
+export function taskOwner(ctx: Pick<ToolContext, "identity">): string | undefined {
+  const { identity } = ctx;
+  return identity && !isAdmin(identity) ? principal(identity) : undefined;
+}
+
+/**
+ * Throw TaskNotFoundError when the ledger records the task under another
+ * identity. Tasks missing from the ledger are left to Runway.
+ */
+export async function assertTaskOwner(taskId: string, ctx: ToolContext): Promise<void> {
+  const owner = taskOwner(ctx);
+  if (owner === undefined || !ctx.ledger) return;
+  const record = await ctx.ledger.get(taskId);
+  if (record && record.identity !== owner) throw new TaskNotFoundError(taskId);
+}
+
+/**
+ * Thrown by generation tools when the caller went away while they waited;
+ * the Runway task has been cancelled.
+ */
+export class TaskCancelledError extends Error {
+  constructor(public readonly taskId: string) {
+    super(`Task ${taskId} was cancelled by the client`);
+    this.name = "TaskCancelledError";
+  }
+}
+
+// Keeps the handler's argument type tied to its own input schema.
+function defineTool<Shape extends z.ZodRawShape>(tool: RunwayTool<Shape>): RunwayTool {
+  return tool as unknown as RunwayTool;
+}
+
+/**
+ * The full argument schema of a tool: its shape plus any cross-field checks.
+ * Every surface validates with this so they all reject the same arguments.
+ */
+export function toolArgsSchema(tool: RunwayTool) {
+  const shape = z.object(tool.inputSchema);
+  return tool.refine ? shape.superRefine(tool.refine) : shape;
+}
+
+/** MCP resource URIs for tasks; see taskResources.ts. */
+export const TASKS_URI = "runway://tasks";
+export const taskUri = (id: string) => `${TASKS_URI}/${id}`;
+export const taskOutputUri = (id: string, n: number | string) => `${taskUri(id)}/outputs/${n}`;
+
+// Utility to format output links in MCP result payloads. Mirrored outputs
+// link to their stable copy; the rest fall back to Runway's signed URL.
+const toResourceLinks = (urls: string[], mirrored: MirroredOutput[] = []) =>
+  urls.map((u, i) => {
+    const copy = mirrored[i]?.url ? mirrored[i] : undefined;
+    return {
+      type: "resource_link" as const,
+      uri: copy?.url ?? u,
+      name: `output_${String(i + 1).padStart(2, "0")}`,
+      ...(copy?.contentType ? { mimeType: copy.contentType } : {}),
+      ...(copy?.size !== undefined ? { size: copy.size } : {})
+    };
+  });
+
+const jsonText = (value: unknown) => ({
+  type: "text" as const,
+  text: JSON.stringify(value, null, 2)
+});
+
+/**
+ * Map a thrown error into an MCP error result carrying its stable code (see
+ * errors.ts), as JSON text and as structured content.
+ */
+function toErrorResult(err: unknown): CallToolResult {
+  const body = errorBody(describeError(err));
+  return { content: [jsonText(body)], structuredContent: body, isError: true };
+}
+
+// The ledger is bookkeeping: a failed write must never fail the tool call.
+async function writeLedger(ctx: ToolContext, write: (ledger: TaskLedger) => Promise<void>) {
+  if (!ctx.ledger) return;
+  try {
+    await write(ctx.ledger);
+  } catch (err: unknown) {
+    console.error("Task ledger write failed:", (err as Error).message);
+  }
+}
+
+/**
+ * Record a freshly created task with the inputs that produced it.
+ */
+export function recordTaskCreated(
+  tool: RunwayTool,
+  args: Record<string, unknown>,
+  taskId: string,
+  ctx: ToolContext,
+  estimate?: CostEstimate
+): Promise<void> {
+  const {
+    wait: _wait,
+    timeoutMs: _timeoutMs,
+    mirror: _mirror,
+    dryRun: _dryRun,
+    idempotencyKey,
+    callbackUrl,
+    callbackSecret: _callbackSecret,
+    ...inputs
+  } = args;
+  const now = new Date().toISOString();
+  return writeLedger(ctx, (ledger) =>
+    ledger.record({
+      taskId,
+      tool: tool.name,
+      ...(typeof inputs.model === "string" ? { model: inputs.model } : {}),
+      ...(typeof inputs.promptText === "string" ? { promptText: inputs.promptText } : {}),
+      inputs: summarizeInputs(inputs),
+      ...(ctx.sessionId ? { sessionId: ctx.sessionId } : {}),
+      ...(ctx.client ? { client: ctx.client } : {}),
+      ...(ctx.identity ? { identity: principal(ctx.identity) } : {}),
+      ...(estimate ? { estimate } : {}),
+      ...(typeof idempotencyKey === "string" ? { idempotencyKey } : {}),
+      status: "PENDING",
+      output: [],
+      ...(typeof callbackUrl === "string"
+        ? { callback: { url: callbackUrl, delivered: false, attempts: [] } }
+        : {}),
+      createdAt: now,
+      updatedAt: now
+    })
+  );
+}
+
+/**
+ * Copy the latest known state of a task from Runway into the ledger.
+ */
+export function recordTaskOutcome(
+  task: RunwayML.TaskRetrieveResponse,
+  ctx: ToolContext
+): Promise<void> {
+  const update: TaskRecordUpdate = {
+    status: task.status,
+    output: Array.isArray(task.output) ? task.output : [],
+    ...(task.failure ? { failure: task.failure } : {}),
+    ...(task.failureCode ? { failureCode: task.failureCode } : {})
+  };
+  ctx.scheduler?.observe(task);
+  return writeLedger(ctx, (ledger) => ledger.update(task.id, update));
+}
+
+/**
+ * Cancel (or, once finished, delete) a Runway task and record it.
+ */
+export async function cancelTask(
+  taskId: string,
+  ctx: ToolContext,
+  { reason }: { reason?: string } = {}
+): Promise<void> {
+  await ctx.runway.tasks.delete(taskId);
+  ctx.scheduler?.settled(taskId);
+  await writeLedger(ctx, (ledger) =>
+    ledger.update(taskId, { status: "CANCELLED", ...(reason ? { failure: reason } : {}) })
+  );
+}
+
+function callbackTarget(args: Record<string, unknown>): WebhookTarget | undefined {
+  if (typeof args.callbackUrl !== "string") return undefined;
+  const secret =
+    typeof args.callbackSecret === "string" ? args.callbackSecret : process.env.WEBHOOK_SECRET;
+  return { url: args.callbackUrl, ...(secret ? { secret } : {}) };
+}
+
+/**
+ * Fire the completion webhook, if one was requested, without blocking the
+ * caller. Given a task id the task is polled in the background until it settles.
+ */
+function scheduleCallback(
+  tool: RunwayTool,
+  args: Record<string, unknown>,
+  task: string | RunwayML.TaskRetrieveResponse,
+  ctx: ToolContext
+): void {
+  const target = callbackTarget(args);
+  if (!target) return;
+  const taskId = typeof task === "string" ? task : task.id;
+  notifyWebhook(ctx.runway, tool.name, task, target, {
+    onSettled: (settled) => recordTaskOutcome(settled, ctx),
+    onAttempt: (attempts, delivered) =>
+      writeLedger(ctx, (ledger) =>
+        ledger.update(taskId, { callback: { url: target.url, delivered, attempts } })
+      )
+  }).catch((err: unknown) => {
+    console.error(`Webhook for task ${taskId} failed:`, (err as Error).message);
+  });
+}
+
+/**
+ * Who limits and budgets apply to: the API key or OAuth subject, else the MCP
+ * session, else everyone without one.
+ */
+export function usageClient(ctx: ToolContext): string {
+  if (ctx.identity) return principal(ctx.identity);
+  return ctx.sessionId ? `session:${ctx.sessionId}` : "anonymous";
+}
+
+/**
+ * Whose idempotency keys a call sees: the API key or OAuth subject, else one
+ * scope for everyone. Not the MCP session, so a client that reconnects with a
+ * new session still finds the tasks its keys created.
+ */
+export function idempotencyScope(ctx: ToolContext): string {
+  return ctx.identity ? principal(ctx.identity) : "anonymous";
+}
+
+/**
+ * Create a generation tool's task and record it. The client's rate limit and
+ * budget are checked first, and Runway 429 and 5xx answers are retried.
+ * Unless the caller is going to wait for the result itself, any completion
+ * webhook is handed to a background watcher. With an idempotency key that
+ * already created a task for the same arguments, that task is returned
+ * (`replayed`) and nothing is created or charged.
+ *
+ * With a scheduler, the create call waits for a free slot. A caller that will
+ * not wait gets the queue id back instead (`queued`) and the task is created
+ * in the background when its turn comes.
+ */
+export async function startTask(
+  tool: RunwayTool,
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+  { willWait }: { willWait: boolean }
+): Promise<{ taskId: string; replayed: boolean; queued?: true }> {
+  if (args.dryRun === true) {
+    // Only a tool's own handler answers dry runs; a job, batch item or pipeline step would not.
+    throw new ToolInputError(tool.name, [
+      {
+        code: z.ZodIssueCode.custom,
+        path: ["dryRun"],
+        message: "dryRun is only supported on direct tool calls; use runway.estimate_cost"
       }
-    },
-    async ({ promptText, model, ratio, seed, wait, timeoutMs }) => {
-      try {
-        const createPromise = runway.textToImage.create({
-          model,
-          promptText,
-          ...(ratio ? { ratio } : {}),
-          ...(seed !== undefined ? { seed } : {})
-        });
+    ]);
+  }
+  if (typeof args.callbackUrl === "string") {
+    await assertPublicCallbackUrl(args.callbackUrl);
+  }
+  const client = usageClient(ctx);
+  const claim =
+    typeof args.idempotencyKey === "string" && ctx.idempotency
+      ? await claimIdempotencyKey(ctx.idempotency, {
+          client: idempotencyScope(ctx),
+          key: args.idempotencyKey,
+          tool: tool.name,
+          args
+        })
+      : undefined;
+  if (claim?.taskId) {
+    return { taskId: claim.taskId, replayed: true };
+  }
 
-        if (!wait) {
-          const task = await createPromise;
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { taskId: task.id, status: "PENDING" },
-                  null,
-                  2
-                )
-              }
-            ]
-          };
-        }
+  let reservation: Reservation | undefined;
+  // Nothing was created, so the credits and the key are free again.
+  const abandon = async () => {
+    if (reservation) {
+      await ctx.usage!.release(reservation).catch(() => undefined);
+    }
+    if (claim) {
+      await ctx.idempotency!.release(claim.id).catch(() => undefined);
+    }
+  };
+  // Best-effort: once Runway has the task, failing to store the key must not fail the call.
+  const keepKey = async (taskId: string) => {
+    if (!claim) return;
+    const expiresAt = new Date(Date.now() + idempotencySettings.ttlMs).toISOString();
+    await ctx.idempotency!.complete(claim.id, taskId, expiresAt).catch((err: unknown) => {
+      console.error(`Storing idempotency key for ${taskId} failed:`, (err as Error).message);
+    });
+  };
 
-        const result = await createPromise.waitForTaskOutput({
-          timeout: timeoutMs ?? undefined
-        });
+  let createArgs: Record<string, unknown>;
+  let estimate: CostEstimate;
+  let ticket: QueueTicket | undefined;
+  try {
+    createArgs = await resolveUploadRefs(args, ctx.uploads, ctx.baseUrl);
+    estimate = estimateCost(args);
+    reservation = await ctx.usage?.reserve(client, estimate.credits, ctx.identity?.limits);
+    ticket = ctx.scheduler?.enqueue(ctx.runway, {
+      tool: tool.name,
+      client,
+      priority: ctx.identity?.limits?.priority
+    });
+  } catch (err: unknown) {
+    await abandon();
+    throw err;
+  }
 
-        const outputs = Array.isArray(result.output) ? result.output : [];
-        if (outputs.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { taskId: result.id, status: result.status, output: [] },
-                  null,
-                  2
-                )
-              }
-            ]
-          };
-        }
+  const create = async (queueId: string | undefined, signal?: AbortSignal) => {
+    let task: Awaited<AwaitableTask>;
+    try {
+      task = await withCreateRetries(() => tool.createTask!(createArgs, ctx), { signal });
+    } catch (err: unknown) {
+      // Runway refused the task, so it costs nothing.
+      if (queueId) ctx.scheduler!.failed(queueId, err);
+      await abandon();
+      throw err;
+    }
+    const wanted = queueId ? ctx.scheduler!.started(queueId, task.id) : true;
+    await recordTaskCreated(tool, args, task.id, ctx, estimate);
+    await keepKey(task.id);
+    if (!wanted) {
+      // Cancelled while its create call was in flight.
+      await cancelTask(task.id, ctx, { reason: "Cancelled while queued" }).catch((err) => {
+        console.error(`Cancelling task ${task.id} failed:`, (err as Error).message);
+      });
+    }
+    if (!willWait) {
+      scheduleCallback(tool, args, task.id, ctx);
+    }
+    return task.id;
+  };
 
-        return {
-          content: [
-            ...toResourceLinks(outputs),
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  taskId: result.id,
-                  status: result.status,
-                  output: outputs
-                },
-                null,
-                2
-              )
-            }
-          ]
-        };
+  if (!ticket?.queued) {
+    return { taskId: await create(ticket?.id, ctx.signal), replayed: false };
+  }
+  const queueId = ticket.id;
+  if (!willWait) {
+    // Until the task exists, a retry with the same key finds the queue entry.
+    await keepKey(queueId);
+    ticket.ready
+      .then(() => create(queueId), abandon)
+      .catch((err: unknown) => {
+        console.error(`Queued ${tool.name} task ${queueId} failed:`, (err as Error).message);
+      });
+    return { taskId: queueId, replayed: false, queued: true };
+  }
+
+  const queued = ctx.scheduler!.get(queueId, client);
+  if (queued) {
+    await ctx.onProgress?.(queueProgress(queued));
+  }
+  const leave = () => ctx.scheduler!.cancel(queueId, client);
+  ctx.signal?.addEventListener("abort", leave, { once: true });
+  try {
+    if (ctx.signal?.aborted) leave();
+    await ticket.ready;
+  } catch (err: unknown) {
+    await abandon();
+    throw ctx.signal?.aborted ? new TaskCancelledError(queueId) : err;
+  } finally {
+    ctx.signal?.removeEventListener("abort", leave);
+  }
+  return { taskId: await create(queueId, ctx.signal), replayed: false };
+}
+
+/**
+ * Copy a succeeded task's outputs to asset storage, if configured and not
+ * turned off for this call, and note the copies in the ledger.
+ */
+async function mirrorTaskOutputs(
+  task: RunwayML.TaskRetrieveResponse,
+  args: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<MirroredOutput[] | undefined> {
+  const outputs = Array.isArray(task.output) ? task.output : [];
+  if (!ctx.assets || args.mirror === false || task.status !== "SUCCEEDED" || !outputs.length) {
+    return undefined;
+  }
+  // Already mirrored (e.g. by an earlier retrieve): reuse the copies.
+  const known = ctx.ledger ? (await ctx.ledger.get(task.id).catch(() => undefined))?.assets : undefined;
+  if (known?.length === outputs.length && known.every((a) => a.url)) {
+    return known;
+  }
+  const assets = await mirrorOutputs(ctx.assets, outputs, {
+    taskId: task.id,
+    baseUrl: ctx.baseUrl
+  });
+  await writeLedger(ctx, (ledger) => ledger.update(task.id, { assets }));
+  return assets;
+}
+
+/**
+ * What a generation call produced: the task and, once waited for, its outputs.
+ */
+export interface TaskRun {
+  taskId: string;
+  status: TaskStatus | "QUEUED";
+  output: string[];
+  assets?: MirroredOutput[];
+  /** Place in line and rough seconds to a slot, while the task is QUEUED. */
+  queuePosition?: number;
+  etaSeconds?: number;
+  /** Set when an idempotency key matched an earlier request's task. */
+  replayed?: true;
+}
+
+/**
+ * The Runway task behind `id`, which may be a queue id. While the entry waits
+ * for a slot only its queue status is known, unless `wait` waits it out; a
+ * failed entry rethrows its create error.
+ */
+export async function resolveQueuedTask(
+  id: string,
+  ctx: ToolContext,
+  { wait }: { wait: boolean }
+): Promise<{ taskId?: string; queued?: QueueStatus }> {
+  const queued = ctx.scheduler?.get(id, taskOwner(ctx));
+  if (!queued) {
+    // Another client's queue id, or one that has expired.
+    if (isQueueId(id)) throw new TaskNotFoundError(id);
+    return { taskId: id };
+  }
+  if (queued.taskId) return { taskId: queued.taskId, queued };
+  if (queued.status === "FAILED") throw ctx.scheduler!.failure(id);
+  if (queued.status === "CANCELLED" || !wait) return { queued };
+  return { taskId: await ctx.scheduler!.whenStarted(id, { signal: ctx.signal }), queued };
+}
+
+function queuedRun(queued: QueueStatus): TaskRun {
+  return {
+    taskId: queued.id,
+    status: queued.status === "CANCELLED" ? "CANCELLED" : "QUEUED",
+    output: [],
+    ...(queued.queuePosition !== undefined
+      ? { queuePosition: queued.queuePosition, etaSeconds: queued.etaSeconds }
+      : {})
+  };
+}
+
+/**
+ * Shared create → (optionally) wait flow for generation tools. Failures and
+ * timeouts are recorded, then rethrown.
+ */
+export async function executeTask(
+  tool: RunwayTool,
+  args: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<TaskRun> {
+  const wait = args.wait === true;
+  const started = await startTask(tool, args, ctx, { willWait: wait });
+  const { replayed } = started;
+  // The original request already arranged the completion webhook.
+  const callbackArgs = replayed ? { ...args, callbackUrl: undefined } : args;
+
+  // A queue id until the task exists; a replay can also find one.
+  const { taskId, queued } = await resolveQueuedTask(started.taskId, ctx, { wait });
+  if (!taskId) {
+    return { ...queuedRun(queued!), ...(replayed ? { replayed } : {}) };
+  }
+
+  if (!wait && replayed) {
+    const current = await ctx.runway.tasks.retrieve(taskId);
+    await recordTaskOutcome(current, ctx);
+    return {
+      taskId,
+      status: current.status,
+      output: Array.isArray(current.output) ? current.output : [],
+      replayed
+    };
+  }
+  if (!wait) {
+    return { taskId, status: "PENDING", output: [] };
+  }
+
+  let result: RunwayML.TaskRetrieveResponse;
+  try {
+    result = await waitForTask(ctx.runway, taskId, {
+      timeout: args.timeoutMs as number | undefined,
+      signal: ctx.signal,
+      onUpdate: (task) => ctx.onProgress?.(taskProgress(task))
+    });
+  } catch (err: unknown) {
+    if (err instanceof AbortError) {
+      // Nobody is waiting for the result any more; stop paying for it.
+      await cancelTask(taskId, ctx, { reason: "Cancelled by client" }).catch((cancelErr) => {
+        console.error(`Cancelling task ${taskId} failed:`, (cancelErr as Error).message);
+      });
+      scheduleCallback(tool, callbackArgs, taskId, ctx);
+      throw new TaskCancelledError(taskId);
+    }
+    if (err instanceof TaskFailedError) {
+      await recordTaskOutcome(err.taskDetails, ctx);
+      scheduleCallback(tool, callbackArgs, err.taskDetails, ctx);
+    } else {
+      // We stopped waiting (e.g. timeout) but the task may still finish.
+      scheduleCallback(tool, callbackArgs, taskId, ctx);
+    }
+    throw err;
+  }
+  await recordTaskOutcome(result, ctx);
+  scheduleCallback(tool, callbackArgs, result, ctx);
+
+  const assets = await mirrorTaskOutputs(result, args, ctx);
+  return {
+    taskId: result.id,
+    status: result.status,
+    output: Array.isArray(result.output) ? result.output : [],
+    ...(assets ? { assets } : {}),
+    ...(replayed ? { replayed } : {})
+  };
+}
+
+async function runTask(
+  tool: RunwayTool,
+  args: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<CallToolResult> {
+  const run = await executeTask(tool, args, ctx);
+  return {
+    content: [
+      ...toResourceLinks(run.output, run.assets),
+      // Lets resource-aware clients re-read or subscribe to the task later.
+      {
+        type: "resource_link",
+        uri: taskUri(run.taskId),
+        name: "task",
+        mimeType: "application/json"
+      },
+      jsonText(run)
+    ]
+  };
+}
+
+// wait/timeoutMs (and the completion webhook) are accepted by every generation tool.
+const waitShape = {
+  wait: z
+    .boolean()
+    .default(true)
+    .describe(
+      "If true, wait for task to finish and return output URLs; otherwise return a task id."
+    ),
+  timeoutMs: z
+    .number()
+    .int()
+    .optional()
+    .describe("Optional wait timeout (ms); default ~10 minutes.")
+};
+
+const mirrorShape = {
+  mirror: z
+    .boolean()
+    .optional()
+    .describe(
+      "Copy outputs to this server's asset storage and return stable URLs. Defaults to on when storage is configured."
+    )
+};
+
+const dryRunShape = {
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return the estimated credits without creating a task.")
+};
+
+/**
+ * Build a generation tool from its create call; the handler, wait/timeout
+ * arguments, dry runs and error mapping are shared.
+ */
+function defineGenerationTool<Shape extends z.ZodRawShape>(tool: {
+  name: string;
+  title: string;
+  description: string;
+  /** The registry task whose models, ratios and durations the arguments are checked against. */
+  task: ModelTask;
+  inputSchema: Shape;
+  createTask: (
+    args: z.objectOutputType<Shape, z.ZodTypeAny>,
+    ctx: ToolContext
+  ) => AwaitableTask;
+}): RunwayTool {
+  const { task, ...definition } = tool;
+  const generationTool: RunwayTool = {
+    ...(definition as unknown as RunwayTool),
+    inputSchema: {
+      ...tool.inputSchema,
+      ...waitShape,
+      ...mirrorShape,
+      ...webhookShape,
+      ...idempotencyShape,
+      ...dryRunShape
+    },
+    refine: refineModelArgs(task),
+    handler: async (args, ctx) => {
+      if (args.dryRun === true) {
+        const estimate = estimateCost(args);
+        return { content: [jsonText({ dryRun: true, tool: tool.name, estimate })] };
+      }
+      try {
+        return await runTask(generationTool, args, ctx);
       } catch (err: unknown) {
-        if (err instanceof TaskFailedError) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { error: "TaskFailed", details: err.taskDetails },
-                  null,
-                  2
-                )
-              }
-            ],
-            isError: true
-          };
-        }
-        return {
-          content: [
-            { type: "text", text: `Error: ${(err as Error).message}` }
-          ],
-          isError: true
-        };
+        return toErrorResult(err);
       }
     }
-  );
+  };
+  return generationTool;
+}
 
-  /**
-   * Image → Video
-   */
-  server.registerTool(
-    "runway.image_to_video",
-    {
-      title: "Runway: Image to Video",
-      description:
-        "Generate a video from an input image and text prompt using Runway Gen-4 Turbo.",
-      inputSchema: {
-        promptImage: z
-          .string()
-          .url("promptImage must be a URL or data URI")
-          .describe(
-            "URL (or data URI) to the source image (first frame / style image)."
-          ),
-        promptText: z
-          .string()
-          .min(1, "promptText is required")
-          .describe("Describe motion, subject, camera, style, etc."),
-        model: z
-          .string()
-          .default("gen4_turbo")
-          .describe("Runway model id. Defaults to gen4_turbo."),
-        ratio: z
-          .string()
-          .optional()
-          .describe("Aspect ratio string like '1280:720' or '720:1280'."),
-        wait: z.boolean().default(true),
-        timeoutMs: z.number().int().optional()
+/**
+ * Text → Image
+ */
+const textToImage = defineGenerationTool({
+  name: "runway.text_to_image",
+  title: "Runway: Text to Image",
+  description:
+    "Generate an image from a text prompt using Runway Gen-4 Image, optionally guided by tagged reference images mentioned in the prompt as @tag.",
+  task: "text_to_image",
+  inputSchema: {
+    promptText: z.string().min(1, "promptText is required"),
+    referenceImages: referenceImagesSchema(),
+    model: modelSchema("text_to_image", "gen4_image"),
+    ratio: ratioSchema("text_to_image"),
+    seed: z.number().int().optional(),
+    contentModeration: contentModerationSchema
+  },
+  createTask: (args, { runway }) => {
+    const { promptText, referenceImages, model, ratio, seed, contentModeration } =
+      withModelDefaults(args);
+    return runway.textToImage.create(
+      {
+        model,
+        promptText,
+        ratio,
+        ...(referenceImages?.length ? { referenceImages } : {}),
+        ...(seed !== undefined ? { seed } : {}),
+        ...(contentModeration ? { contentModeration } : {})
+      },
+      CREATE_REQUEST_OPTIONS
+    );
+  }
+});
+
+/**
+ * Image → Video
+ */
+const imageToVideo = defineGenerationTool({
+  name: "runway.image_to_video",
+  title: "Runway: Image to Video",
+  description:
+    "Generate a video from an input image (or first/last keyframes) and text prompt using Runway Gen-4 Turbo.",
+  task: "image_to_video",
+  inputSchema: {
+    promptImage: z
+      .union([
+        z.string().url("promptImage must be a URL, data URI or upload:// reference"),
+        z
+          .array(
+            z.object({
+              uri: z.string().url("promptImage[].uri must be a URL, data URI or upload:// reference"),
+              position: z.enum(["first", "last"])
+            })
+          )
+          .min(1, "promptImage needs at least one keyframe")
+          .max(2, "promptImage takes at most a first and a last keyframe")
+      ])
+      .describe(
+        "URL, data URI or upload:// reference (see runway.upload) to the source image used as the first frame, or keyframes as [{ uri, position: 'first' | 'last' }] ('last' depends on the model)."
+      ),
+    promptText: z
+      .string()
+      .min(1, "promptText is required")
+      .describe("Describe motion, subject, camera, style, etc."),
+    model: modelSchema("image_to_video", "gen4_turbo"),
+    ratio: ratioSchema("image_to_video"),
+    duration: durationSchema("image_to_video"),
+    seed: z.number().int().optional(),
+    contentModeration: contentModerationSchema
+  },
+  createTask: (args, { runway }) => {
+    const { promptImage, promptText, model, ratio, duration, seed, contentModeration } =
+      withModelDefaults(args);
+    return runway.imageToVideo.create(
+      {
+        model,
+        promptImage,
+        promptText,
+        ratio,
+        ...(duration !== undefined ? { duration } : {}),
+        ...(seed !== undefined ? { seed } : {}),
+        ...(contentModeration ? { contentModeration } : {})
+      },
+      CREATE_REQUEST_OPTIONS
+    );
+  }
+});
+
+/**
+ * Video → Video (restyle existing footage)
+ */
+const videoToVideo = defineGenerationTool({
+  name: "runway.video_to_video",
+  title: "Runway: Video to Video",
+  description:
+    "Restyle or edit an existing video from a text prompt, optionally guided by a reference image, using Runway Gen-4 Aleph.",
+  task: "video_to_video",
+  inputSchema: {
+    video: z
+      .string()
+      .url("video must be a URL, data URI or upload:// reference")
+      .describe("URL or upload:// reference (see runway.upload) of the source video."),
+    promptText: z
+      .string()
+      .min(1, "promptText is required")
+      .describe("Describe the change: new style, setting, lighting, objects to add or remove."),
+    referenceImage: z
+      .string()
+      .url("referenceImage must be a URL, data URI or upload:// reference")
+      .optional()
+      .describe("Image whose style or content should guide the result."),
+    model: modelSchema("video_to_video", "gen4_aleph"),
+    ratio: ratioSchema("video_to_video"),
+    seed: z.number().int().optional(),
+    contentModeration: contentModerationSchema
+  },
+  createTask: (args, { runway }) => {
+    const { video, promptText, referenceImage, model, ratio, seed, contentModeration } =
+      withModelDefaults(args);
+    return runway.videoToVideo.create(
+      {
+        model,
+        videoUri: video,
+        promptText,
+        ratio,
+        ...(referenceImage ? { references: [{ type: "image", uri: referenceImage }] } : {}),
+        ...(seed !== undefined ? { seed } : {}),
+        ...(contentModeration ? { contentModeration } : {})
+      },
+      CREATE_REQUEST_OPTIONS
+    );
+  }
+});
+
+/**
+ * Character Performance (drive a character with an actor's performance)
+ */
+const characterPerformance = defineGenerationTool({
+  name: "runway.character_performance",
+  title: "Runway: Character Performance",
+  description:
+    "Animate a character image or video with the facial expressions (and optionally body movement) of a driving performance video, using Runway Act-Two.",
+  task: "character_performance",
+  inputSchema: {
+    character: z
+      .string()
+      .url("character must be a URL, data URI or upload:// reference")
+      .describe("URL or upload:// reference (see runway.upload) of the character to animate."),
+    characterType: z
+      .enum(["image", "video"])
+      .default("image")
+      .describe("Whether character is an image or a video. Defaults to image."),
+    reference: z
+      .string()
+      .url("reference must be a URL, data URI or upload:// reference")
+      .describe("URL or upload:// reference of the driving performance video (3-30 seconds)."),
+    bodyControl: z
+      .boolean()
+      .optional()
+      .describe("Transfer body and hand movement as well as the face."),
+    expressionIntensity: z
+      .number()
+      .int("expressionIntensity must be a whole number")
+      .optional()
+      .describe("How strongly facial expressions are transferred, 1-5 (Runway's default: 3)."),
+    model: modelSchema("character_performance", "act_two"),
+    ratio: ratioSchema("character_performance"),
+    seed: z.number().int().optional(),
+    contentModeration: contentModerationSchema
+  },
+  createTask: (args, { runway }) => {
+    const {
+      character,
+      characterType,
+      reference,
+      bodyControl,
+      expressionIntensity,
+      model,
+      ratio,
+      seed,
+      contentModeration
+    } = withModelDefaults(args);
+    return runway.characterPerformance.create(
+      {
+        model,
+        character: { type: characterType, uri: character },
+        reference: { type: "video", uri: reference },
+        ratio,
+        ...(bodyControl !== undefined ? { bodyControl } : {}),
+        ...(expressionIntensity !== undefined ? { expressionIntensity } : {}),
+        ...(seed !== undefined ? { seed } : {}),
+        ...(contentModeration ? { contentModeration } : {})
+      },
+      CREATE_REQUEST_OPTIONS
+    );
+  }
+});
+
+/**
+ * Video Upscale (e.g., 720p → 4K)
+ */
+const videoUpscale = defineGenerationTool({
+  name: "runway.video_upscale",
+  title: "Runway: Video Upscale",
+  description:
+    "Upscale a video to 4x its resolution (capped at 4096px per side) using Runway's video_upscale endpoint. Input videos must be at most 40 seconds.",
+  task: "video_upscale",
+  inputSchema: {
+    video: z
+      .string()
+      .url("video must be a URL, data URI or upload:// reference")
+      .describe("URL or upload:// reference (see runway.upload) of the source video to upscale."),
+    model: modelSchema("video_upscale", "upscale_v1")
+  },
+  createTask: ({ video, model }, { runway }) =>
+    runway.videoUpscale.create(
+      {
+        model,
+        videoUri: video
+      },
+      CREATE_REQUEST_OPTIONS
+    )
+});
+
+/**
+ * Models: the capability registry
+ */
+const modelsList = defineTool({
+  name: "runway.models.list",
+  title: "Runway: List Models",
+  description:
+    "List the Runway models this server knows, with the tasks, ratios, durations and inputs each supports.",
+  inputSchema: {
+    task: z
+      .enum(MODEL_TASKS as [ModelTask, ...ModelTask[]])
+      .optional()
+      .describe("Only models that can perform this task.")
+  },
+  handler: async ({ task }) => ({ content: [jsonText({ models: listModels(task) })] })
+});
+
+/**
+ * Credits: estimate a generation before running it
+ */
+const estimateCostTool = defineTool({
+  name: "runway.estimate_cost",
+  title: "Runway: Estimate Cost",
+  description:
+    "Estimate the Runway credits a generation tool call would cost, from its model, duration and output size, without creating a task. Only tools you may call can be priced.",
+  inputSchema: {
+    tool: z
+      .string()
+      .min(1, "tool is required")
+      .describe("Generation tool to price, e.g. runway.image_to_video."),
+    arguments: z
+      .record(z.unknown())
+      .default({})
+      .describe("The arguments the tool would be called with."),
+    seconds: z
+      .number()
+      .positive()
+      .optional()
+      .describe(
+        "Length in seconds of the input video that is billed (the source for runway.video_upscale, the performance for runway.character_performance), which the arguments do not carry."
+      )
+  },
+  handler: async ({ tool: name, arguments: args, seconds }, ctx) => {
+    try {
+      const tool = findRunwayTool(name);
+      if (!tool?.createTask) {
+        throw new Error(`${name} is not a generation tool`);
       }
-    },
-    async ({ promptImage, promptText, model, ratio, wait, timeoutMs }) => {
-      try {
-        const createPromise = runway.imageToVideo.create({
-          model,
-          promptImage,
-          promptText,
-          ...(ratio ? { ratio } : {})
-        });
+      // Only price what the caller could actually run.
+      assertToolAllowed(name, ctx);
+      const parsed = toolArgsSchema(tool).safeParse(args);
+      if (!parsed.success) {
+        throw new ToolInputError(name, parsed.error.issues);
+      }
+      const estimate = estimateCost(parsed.data, { seconds });
+      return { content: [jsonText({ tool: name, estimate })] };
+    } catch (err: unknown) {
+      return toErrorResult(err);
+    }
+  }
+});
 
-        if (!wait) {
-          const task = await createPromise;
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { taskId: task.id, status: "PENDING" },
-                  null,
-                  2
-                )
-              }
-            ]
-          };
-        }
+/**
+ * Organization: credit balance and tier limits
+ */
+const organizationGet = defineTool({
+  name: "runway.organization.get",
+  title: "Runway: Get Organization",
+  description:
+    "Get the Runway organization's credit balance, monthly spend cap, and each model's concurrency and daily generation limits with today's usage. Check this before starting an expensive batch.",
+  inputSchema: {},
+  handler: async (_args, { runway }) => {
+    try {
+      return { content: [jsonText(await getOrganization(runway))] };
+    } catch (err: unknown) {
+      return toErrorResult(err);
+    }
+  }
+});
 
-        const result = await createPromise.waitForTaskOutput({
-          timeout: timeoutMs ?? undefined
-        });
+/**
+ * Organization: credits used per model over a date range
+ */
+const organizationUsage = defineTool({
+  name: "runway.organization.usage",
+  title: "Runway: Organization Usage",
+  description:
+    "Credits the Runway organization used per model and day over a date range (up to 90 days), with per-model totals.",
+  inputSchema: organizationUsageShape,
+  refine: refineUsageRange,
+  handler: async (range, { runway }) => {
+    try {
+      return { content: [jsonText(await getOrganizationUsage(runway, range))] };
+    } catch (err: unknown) {
+      return toErrorResult(err);
+    }
+  }
+});
 
-        const outputs = Array.isArray(result.output) ? result.output : [];
-        return {
-          content: [
-            ...toResourceLinks(outputs),
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  taskId: result.id,
-                  status: result.status,
-                  output: outputs
-                },
-                null,
-                2
-              )
-            }
-          ]
-        };
-      } catch (err: unknown) {
-        if (err instanceof TaskFailedError) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { error: "TaskFailed", details: err.taskDetails },
-                  null,
-                  2
-                )
-              }
-            ],
-            isError: true
-          };
-        }
-        return {
-          content: [
-            { type: "text", text: `Error: ${(err as Error).message}` }
-          ],
-          isError: true
-        };
+/**
+ * Upload a source image or video
+ */
+const upload = defineTool({
+  name: "runway.upload",
+  title: "Runway: Upload Source File",
+  description:
+    "Store an image or video on this server and get an upload:// reference usable as promptImage or video. Uploads expire.",
+  inputSchema: {
+    data: z
+      .string()
+      .min(1, "data is required")
+      .describe("File contents as base64 or a data URI."),
+    filename: z.string().optional(),
+    contentType: z
+      .string()
+      .optional()
+      .describe("MIME type; checked against the file contents when given.")
+  },
+  handler: async ({ data, filename, contentType }, ctx) => {
+    if (!ctx.uploads) {
+      return {
+        content: [{ type: "text", text: "Error: uploads are not enabled on this server" }],
+        isError: true
+      };
+    }
+    try {
+      const dataUri = /^data:([^;,]+)?(;base64)?,/.exec(data);
+      const body = Buffer.from(dataUri ? data.slice(dataUri[0].length) : data, "base64");
+      const saved = await ctx.uploads.save(body, {
+        filename,
+        contentType: contentType ?? dataUri?.[1]
+      });
+      const view = describeUpload(saved, ctx.baseUrl);
+      return {
+        content: [
+          {
+            type: "resource_link",
+            uri: view.url,
+            name: filename ?? `${UPLOAD_REF_PREFIX}${saved.id}`,
+            mimeType: saved.contentType,
+            size: saved.size
+          },
+          jsonText(view)
+        ]
+      };
+    } catch (err: unknown) {
+      return toErrorResult(err);
+    }
+  }
+});
+
+// Run one batch item; every failure becomes a row instead of a throw.
+async function runBatchItem(
+  spec: GenerationSpec,
+  row: Omit<BatchItemResult, "status" | "output">,
+  { wait, timeoutMs }: BatchArgs,
+  ctx: ToolContext
+): Promise<BatchItemResult> {
+  const failed = (error: string, code: ErrorCode): BatchItemResult => ({
+    ...row,
+    status: "ERROR",
+    output: [],
+    error,
+    code,
+    retryable: false
+  });
+  if (ctx.signal?.aborted) {
+    return {
+      ...row,
+      status: "CANCELLED",
+      output: [],
+      error: "Cancelled by client",
+      code: "CancelledByClient",
+      retryable: false
+    };
+  }
+  const tool = findRunwayTool(spec.tool);
+  if (!tool?.createTask) {
+    return failed(`${spec.tool} is not a generation tool`, "UnknownTool");
+  }
+  if (!canUseTool(ctx.identity, tool.name)) {
+    return failed(new ToolForbiddenError(tool.name, ctx.identity!.subject).message, "Forbidden");
+  }
+  const parsed = toolArgsSchema(tool).safeParse({
+    ...spec.arguments,
+    wait,
+    ...(timeoutMs !== undefined ? { timeoutMs } : {})
+  });
+  if (!parsed.success) {
+    return failed(new ToolInputError(spec.tool, parsed.error.issues).message, "InvalidArguments");
+  }
+  try {
+    const run = await executeTask(tool, parsed.data, ctx);
+    return {
+      ...row,
+      taskId: run.taskId,
+      status: run.status,
+      output: run.output.map((u, i) => run.assets?.[i]?.url ?? u)
+    };
+  } catch (err: unknown) {
+    const { code, message, retryable } = describeError(err);
+    const error = { error: message, code, retryable };
+    if (err instanceof TaskCancelledError) {
+      return { ...row, taskId: err.taskId, status: "CANCELLED", output: [], ...error };
+    }
+    if (err instanceof UsageLimitError) {
+      return { ...row, status: err.code, output: [], ...error };
+    }
+    if (err instanceof TaskFailedError) {
+      return {
+        ...row,
+        taskId: err.taskDetails.id,
+        status: err.taskDetails.status,
+        output: [],
+        ...error
+      };
+    }
+    return { ...row, status: "ERROR", output: [], ...error };
+  }
+}
+
+/**
+ * Batch: many generations, or one spec swept over seeds/ratios/models
+ */
+const batch = defineTool({
+  name: "runway.batch",
+  title: "Runway: Batch Generate",
+  description:
+    "Run a list of generation specs, or one base spec swept over seeds, ratios and models, with a concurrency cap. Returns a per-item result table; failed items do not stop the rest.",
+  inputSchema: batchShape,
+  refine: refineBatchArgs,
+  handler: async (args, ctx) => {
+    let specs: GenerationSpec[];
+    try {
+      specs = expandBatch(args);
+    } catch (err: unknown) {
+      return toErrorResult(err);
+    }
+    const params = distinguishingParams(specs);
+    const itemProgress = ctx.onProgress && combinedProgress(ctx.onProgress, specs.length);
+    const rows = await mapWithConcurrency(specs, args.concurrency, (spec, index) =>
+      runBatchItem(spec, { index, tool: spec.tool, params: params[index] }, args, {
+        ...ctx,
+        onProgress: itemProgress?.(index)
+      })
+    );
+
+    const pad = (n: number) => String(n + 1).padStart(2, "0");
+    const links = rows.flatMap((r) =>
+      r.output.map((uri, i) => ({
+        type: "resource_link" as const,
+        uri,
+        name: `item_${pad(r.index)}_output_${pad(i)}`
+      }))
+    );
+    const failed = rows.filter((r) => r.error).length;
+    return {
+      content: [
+        ...links,
+        { type: "text", text: formatBatchTable(rows) },
+        jsonText({ total: rows.length, failed, items: rows })
+      ],
+      // Partial failures are reported per row; only an all-failed batch is an error.
+      isError: failed === rows.length
+    };
+  }
+});
+
+/**
+ * Per-step entry in a pipeline result.
+ */
+interface PipelineStepReport extends Partial<Omit<TaskRun, "status">> {
+  id: string;
+  tool: string;
+  status: TaskRun["status"] | "ERROR";
+  error?: string;
+  code?: ErrorCode;
+  failureCode?: string;
+}
+
+// Run steps in order, feeding outputs forward; stop at the first failure.
+async function runPipeline(
+  name: string | undefined,
+  steps: PipelineStep[],
+  params: Record<string, unknown>,
+  timeoutMs: number | undefined,
+  ctx: ToolContext
+): Promise<CallToolResult> {
+  const results: StepResults = {};
+  const report: PipelineStepReport[] = [];
+
+  for (const [i, step] of steps.entries()) {
+    try {
+      const tool = findRunwayTool(step.tool)!;
+      const parsed = toolArgsSchema(tool).safeParse({
+        ...renderArguments(step.arguments, results, params),
+        wait: true,
+        ...(timeoutMs !== undefined ? { timeoutMs } : {})
+      });
+      if (!parsed.success) {
+        throw new ToolInputError(step.tool, parsed.error.issues);
       }
+      const run = await executeTask(tool, parsed.data, {
+        ...ctx,
+        onProgress: ctx.onProgress && stepProgress(ctx.onProgress, i, steps.length, step.id)
+      });
+      results[step.id] = { taskId: run.taskId, output: run.output };
+      report.push({ id: step.id, tool: step.tool, ...run });
+    } catch (err: unknown) {
+      const details = err instanceof TaskFailedError ? err.taskDetails : undefined;
+      const cancelled = err instanceof TaskCancelledError ? err : undefined;
+      const { code, message, retryable } = describeError(err);
+      const failed: PipelineStepReport = {
+        id: step.id,
+        tool: step.tool,
+        ...(details ? { taskId: details.id } : {}),
+        ...(cancelled ? { taskId: cancelled.taskId } : {}),
+        status: details?.status ?? (cancelled ? "CANCELLED" : "ERROR"),
+        error: message,
+        code,
+        ...(details?.failureCode ? { failureCode: details.failureCode } : {})
+      };
+      const body = {
+        error: cancelled ? "CancelledByClient" : "PipelineStepFailed",
+        message,
+        // Sending the whole pipeline again would rerun the steps that succeeded.
+        retryable: false,
+        ...(name ? { pipeline: name } : {}),
+        step: step.id,
+        tool: step.tool,
+        stepError: code,
+        stepRetryable: retryable,
+        steps: [...report, failed],
+        skipped: steps.slice(i + 1).map((s) => s.id)
+      };
+      return { content: [jsonText(body)], structuredContent: body, isError: true };
     }
+  }
+
+  const links = report.flatMap((r) =>
+    (r.output ?? []).map((u, i) => ({
+      type: "resource_link" as const,
+      uri: r.assets?.[i]?.url ?? u,
+      name: `${r.id}_output_${String(i + 1).padStart(2, "0")}`
+    }))
   );
+  return {
+    content: [
+      ...links,
+      jsonText({ ...(name ? { pipeline: name } : {}), status: "SUCCEEDED", steps: report })
+    ]
+  };
+}
 
-  /**
-   * Video Upscale (e.g., 720p → 4K)
-   */
-  server.registerTool(
-    "runway.video_upscale",
-    {
-      title: "Runway: Video Upscale",
-      description:
-        "Upscale a video output to a higher resolution using Runway's video_upscale endpoint.",
-      inputSchema: {
-        video: z
-          .string()
-          .url("video must be a URL (or data URI if supported)")
-          .describe("URL of the source video to upscale."),
-        // Many clients simply require the source video; exposing optional params for forward-compat:
-        model: z
-          .string()
-          .default("gen4_turbo")
-          .describe("Model used for upscaling; default works for most cases."),
-        wait: z.boolean().default(true),
-        timeoutMs: z.number().int().optional()
-      }
-    },
-    async ({ video, model, wait, timeoutMs }) => {
-      try {
-        const createPromise = runway.videoUpscale.create({
-          model,
-          // The SDK param name is 'video' for source asset.
-          video
-        } as any);
-
-        if (!wait) {
-          const task = await createPromise;
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { taskId: task.id, status: "PENDING" },
-                  null,
-                  2
-                )
-              }
-            ]
-          };
+/**
+ * Pipeline: chain generation tools, passing outputs between steps
+ */
+const pipeline = defineTool({
+  name: "runway.pipeline",
+  title: "Runway: Run Pipeline",
+  description:
+    "Run generation steps in order (e.g. text_to_image → image_to_video → video_upscale). Step arguments can use {{steps.<id>.output[0]}} and {{params.<name>}}. Save with save: true and re-run later by name with new params.",
+  inputSchema: pipelineShape,
+  handler: async ({ name, steps, params, save, description, timeoutMs }, ctx) => {
+    const owner = ctx.identity && principal(ctx.identity);
+    let definition: { steps: PipelineStep[]; params: Record<string, unknown> };
+    try {
+      if (steps) {
+        definition = { steps, params };
+      } else {
+        if (!name) {
+          throw new PipelineDefinitionError("Pass steps, or the name of a saved pipeline");
+        }
+        const saved = await ctx.pipelines?.get(name, owner);
+        if (!saved) {
+          throw new PipelineDefinitionError(`No saved pipeline named ${name}`);
         }
+        definition = { steps: saved.steps, params: { ...saved.params, ...params } };
+      }
 
-        const result = await createPromise.waitForTaskOutput({
-          timeout: timeoutMs ?? undefined
-        });
+      for (const step of definition.steps) {
+        if (!findRunwayTool(step.tool)?.createTask) {
+          throw new PipelineDefinitionError(
+            `Step ${step.id}: ${step.tool} is not a generation tool`
+          );
+        }
+        assertToolAllowed(step.tool, ctx);
+      }
+      checkPipeline(definition.steps, definition.params);
 
-        const outputs = Array.isArray(result.output) ? result.output : [];
-        return {
-          content: [
-            ...toResourceLinks(outputs),
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  taskId: result.id,
-                  status: result.status,
-                  output: outputs
-                },
-                null,
-                2
-              )
-            }
-          ]
-        };
-      } catch (err: unknown) {
-        if (err instanceof TaskFailedError) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { error: "TaskFailed", details: err.taskDetails },
-                  null,
-                  2
-                )
-              }
-            ],
-            isError: true
-          };
+      if (save) {
+        if (!steps || !name) {
+          throw new PipelineDefinitionError("save needs both name and steps");
         }
-        return {
-          content: [
-            { type: "text", text: `Error: ${(err as Error).message}` }
-          ],
-          isError: true
-        };
+        if (!ctx.pipelines) {
+          throw new PipelineDefinitionError("Saved pipelines are not enabled on this server");
+        }
+        const now = new Date().toISOString();
+        const existing = await ctx.pipelines.get(name, owner);
+        await ctx.pipelines.save({
+          name,
+          ...(owner ? { owner } : {}),
+          ...(description ? { description } : {}),
+          steps,
+          params,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now
+        });
       }
+    } catch (err: unknown) {
+      return toErrorResult(err);
     }
-  );
+    return runPipeline(name, definition.steps, definition.params, timeoutMs, ctx);
+  }
+});
 
-  /**
-   * Task: retrieve (poll by id)
-   */
-  server.registerTool(
-    "runway.tasks.retrieve",
-    {
-      title: "Runway: Get Task",
-      description: "Retrieve task status/output by id.",
-      inputSchema: {
-        id: z.string().min(1, "task id is required"),
-        wait: z.boolean().default(false),
-        timeoutMs: z.number().int().optional()
-      }
-    },
-    async ({ id, wait, timeoutMs }) => {
-      try {
-        const promise = runway.tasks.retrieve(id as string);
+/**
+ * Pipeline: list saved pipelines
+ */
+const pipelinesList = defineTool({
+  name: "runway.pipelines.list",
+  title: "Runway: List Pipelines",
+  description:
+    "List the pipelines you saved with runway.pipeline, with their steps and default params.",
+  inputSchema: {},
+  handler: async (_args, { pipelines, identity }) => {
+    if (!pipelines) {
+      return {
+        content: [{ type: "text", text: "Error: saved pipelines are not enabled on this server" }],
+        isError: true
+      };
+    }
+    try {
+      const owner = identity && principal(identity);
+      return { content: [jsonText({ pipelines: await pipelines.list(owner) })] };
+    } catch (err: unknown) {
+      return toErrorResult(err);
+    }
+  }
+});
 
-        const result = wait
-          ? await promise.waitForTaskOutput({ timeout: timeoutMs ?? undefined })
-          : await promise;
+/**
+ * Task: retrieve (poll by id)
+ */
+const tasksRetrieve = defineTool({
+  name: "runway.tasks.retrieve",
+  title: "Runway: Get Task",
+  description:
+    "Retrieve task status/output by id. Queue ids (queue_...) show their place in line and ETA until the task starts.",
+  inputSchema: {
+    id: z.string().min(1, "task id is required"),
+    wait: z.boolean().default(false),
+    timeoutMs: z.number().int().optional(),
+    ...mirrorShape
+  },
+  handler: async ({ id, wait, timeoutMs, mirror }, ctx) => {
+    try {
+      await assertTaskOwner(id, ctx);
+      const { taskId, queued } = await resolveQueuedTask(id, ctx, { wait });
+      if (!taskId) {
+        return { content: [jsonText(queued)] };
+      }
+      if (queued) await assertTaskOwner(taskId, ctx);
+      const result = wait
+        ? await waitForTask(ctx.runway, taskId, {
+            timeout: timeoutMs,
+            signal: ctx.signal,
+            onUpdate: (task) => ctx.onProgress?.(taskProgress(task))
+          })
+        : await ctx.runway.tasks.retrieve(taskId);
+      await recordTaskOutcome(result, ctx);
 
-        const outputs = Array.isArray((result as any).output)
-          ? ((result as any).output as string[])
-          : [];
+      const outputs = Array.isArray(result.output) ? result.output : [];
+      const assets = await mirrorTaskOutputs(result, { mirror }, ctx);
 
-        return {
-          content: [
-            ...toResourceLinks(outputs),
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2)
-            }
-          ]
-        };
-      } catch (err: unknown) {
-        return {
-          content: [
-            { type: "text", text: `Error: ${(err as Error).message}` }
-          ],
-          isError: true
-        };
+      return {
+        content: [
+          ...toResourceLinks(outputs, assets),
+          jsonText({
+            ...result,
+            ...(queued ? { queueId: queued.id } : {}),
+            ...(assets ? { assets } : {})
+          })
+        ]
+      };
+    } catch (err: unknown) {
+      if (err instanceof TaskFailedError) {
+        await recordTaskOutcome(err.taskDetails, ctx);
       }
+      return toErrorResult(err);
     }
-  );
+  }
+});
 
-  /**
-   * Task: cancel (best-effort)
-   */
-  server.registerTool(
-    "runway.tasks.cancel",
-    {
-      title: "Runway: Cancel Task",
-      description: "Cancel or delete a task by id (best-effort).",
-      inputSchema: {
-        id: z.string().min(1, "task id is required")
-      }
-    },
-    async ({ id }) => {
-      try {
-        // The SDK exposes cancellation via tasks.cancel / delete depending on version.
-        // Use generic POST fallback if needed.
-        // @ts-expect-error: some SDK versions expose cancel()
-        const cancelled = await (runway.tasks.cancel?.(id) ??
-          runway.post?.(`/v1/tasks/${id}/cancel`, {}));
+/**
+ * Task: cancel (best-effort)
+ */
+const tasksCancel = defineTool({
+  name: "runway.tasks.cancel",
+  title: "Runway: Cancel Task",
+  description:
+    "Cancel or delete a task by id (best-effort). A queued task is taken out of line before it reaches Runway.",
+  inputSchema: {
+    id: z.string().min(1, "task id is required")
+  },
+  handler: async ({ id }, ctx) => {
+    try {
+      const queued = ctx.scheduler?.cancel(id, taskOwner(ctx));
+      if (queued && !queued.taskId) {
         return {
           content: [
-            {
-              type: "text",
-              text: JSON.stringify(cancelled ?? { id, cancelled: true }, null, 2)
-            }
+            jsonText({ id, cancelled: queued.status !== "FAILED", status: queued.status })
           ]
         };
-      } catch (err: unknown) {
-        return {
-          content: [
-            { type: "text", text: `Error: ${(err as Error).message}` }
-          ],
-          isError: true
-        };
       }
+      if (!queued && isQueueId(id)) throw new TaskNotFoundError(id);
+      const taskId = queued?.taskId ?? id;
+      await assertTaskOwner(taskId, ctx);
+      await cancelTask(taskId, ctx);
+      return {
+        content: [jsonText({ id, cancelled: true })]
+      };
+    } catch (err: unknown) {
+      return toErrorResult(err);
     }
-  );
-}
\ No newline at end of file
+  }
+});
+
+const ledgerNotConfigured = (): CallToolResult => ({
+  content: [{ type: "text", text: "Error: task history is not enabled on this server" }],
+  isError: true
+});
+
+/**
+ * Task history: list recorded generations
+ */
+const tasksList = defineTool({
+  name: "runway.tasks.list",
+  title: "Runway: List Tasks",
+  description:
+    "List your tasks created through this server, newest first, filtered by tool, model, status or date range.",
+  inputSchema: taskFilterShape,
+  handler: async (query, ctx) => {
+    if (!ctx.ledger) return ledgerNotConfigured();
+    try {
+      const tasks = await ctx.ledger.list({ ...query, identity: taskOwner(ctx) });
+      return { content: [jsonText({ tasks })] };
+    } catch (err: unknown) {
+      return toErrorResult(err);
+    }
+  }
+});
+
+/**
+ * Task history: search recorded generations by prompt
+ */
+const tasksSearch = defineTool({
+  name: "runway.tasks.search",
+  title: "Runway: Search Tasks",
+  description:
+    "Search your tasks created through this server by prompt text, with the same filters as runway.tasks.list.",
+  inputSchema: {
+    ...taskQueryShape,
+    text: z.string().min(1, "text is required").describe(
+      "Case-insensitive substring match on the prompt text."
+    )
+  },
+  handler: async (query, ctx) => {
+    if (!ctx.ledger) return ledgerNotConfigured();
+    try {
+      const tasks = await ctx.ledger.list({ ...query, identity: taskOwner(ctx) });
+      return { content: [jsonText({ tasks })] };
+    } catch (err: unknown) {
+      return toErrorResult(err);
+    }
+  }
+});
+
+/**
+ * The tool catalog. MCP registration and /gpt-action dispatch are both
+ * generated from this list, so a tool only ever needs to be added here.
+ */
+export const runwayTools: readonly RunwayTool[] = [
+  textToImage,
+  imageToVideo,
+  videoToVideo,
+  characterPerformance,
+  videoUpscale,
+  modelsList,
+  estimateCostTool,
+  organizationGet,
+  organizationUsage,
+  upload,
+  batch,
+  pipeline,
+  pipelinesList,
+  tasksRetrieve,
+  tasksCancel,
+  tasksList,
+  tasksSearch
+];
+
+/**
+ * Tools that start a Runway task (and so can back an async job).
+ */
+export const generationTools: readonly RunwayTool[] = runwayTools.filter(
+  (t) => t.createTask !== undefined
+);
+
+export function findRunwayTool(name: string): RunwayTool | undefined {
+  return runwayTools.find((t) => t.name === name);
+}
+
+/**
+ * Validate raw arguments against a tool's schema and run its handler.
+ * Used by non-MCP surfaces; MCP validates through registerTool itself.
+ */
+export async function callRunwayTool(
+  name: string,
+  args: unknown,
+  ctx: ToolContext
+): Promise<CallToolResult> {
+  const tool = findRunwayTool(name);
+  if (!tool) {
+    throw new UnknownToolError(name);
+  }
+  assertToolAllowed(name, ctx);
+  const parsed = toolArgsSchema(tool).safeParse(args ?? {});
+  if (!parsed.success) {
+    throw new ToolInputError(name, parsed.error.issues);
+  }
+  return tool.handler(parsed.data, ctx);
+}
+
+/**
+ * Register tools on an MCP server that wrap RunwayML SDK calls.
+ * Tools are designed to be safe to call by GPT Actions via MCP.
+ * Only the tools the session's identity may call are listed.
+ */
+export function registerRunwayTools(
+  server: McpServer,
+  ctx: Omit<ToolContext, "sessionId" | "client">
+) {
+  for (const tool of runwayTools.filter((t) => canUseTool(ctx.identity, t.name))) {
+    // Widen to the SDK's zod v3/v4 compat shape; inferring it per tool is too deep for tsc.
+    const inputSchema = tool.inputSchema as unknown as ZodRawShapeCompat;
+    server.registerTool<ZodRawShapeCompat, ZodRawShapeCompat>(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema
+      },
+      (args, extra) => {
+        // registerTool only checks the shape; apply the tool's cross-field checks too.
+        const refined = toolArgsSchema(tool).safeParse(args);
+        if (!refined.success) {
+          return toErrorResult(new ToolInputError(tool.name, refined.error.issues));
+        }
+        const progressToken = extra._meta?.progressToken;
+        return tool.handler(refined.data, {
+          ...ctx,
+          sessionId: extra.sessionId,
+          client: server.server.getClientVersion()?.name,
+          signal: extra.signal,
+          ...(progressToken !== undefined
+            ? { onProgress: mcpProgressListener(progressToken, extra.sendNotification) }
+            : {})
+        });
+      }
+    );
+  }
+}
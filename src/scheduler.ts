@@ -0,0 +1,448 @@
+// File: src/scheduler.ts
+import { createHash, randomUUID } from "node:crypto";
+import RunwayML, { AbortError, NotFoundError } from "@runwayml/sdk";
+import { isTerminalStatus, type TaskStatus } from "./taskWatch.js";
+
+export const schedulerSettings = {
+  /** Tasks one Runway account may run at once; 0 (the default) turns the queue off. */
+  maxConcurrency: Number(process.env.RUNWAY_MAX_CONCURRENCY || 0),
+  maxQueued: Number(process.env.RUNWAY_QUEUE_MAX || 100),
+  // Assumed task length for ETAs until some tasks have finished.
+  defaultTaskMs: 60 * 1000,
+  // While calls wait, running tasks nobody else reported on are checked this often.
+  sweepMs: 10 * 1000,
+  // How long a queue id still resolves after its entry left the queue.
+  retainMs: 60 * 60 * 1000,
+  // A started task nobody has reported on for this long is taken as finished.
+  startedTtlMs: 60 * 60 * 1000
+};
+
+/**
+ * QUEUED → STARTING (holds a slot, create call in flight) → STARTED (has a
+ * Runway task). FAILED means the create call failed; CANCELLED that the
+ * entry was cancelled before it reached Runway.
+ */
+export type QueueState = "QUEUED" | "STARTING" | "STARTED" | "FAILED" | "CANCELLED";
+
+/**
+ * A queue entry as callers see it. Queue ids start with `queue_`.
+ */
+export interface QueueStatus {
+  id: string;
+  status: QueueState;
+  tool: string;
+  enqueuedAt: string;
+  /** The Runway task, once created. */
+  taskId?: string;
+  /** Place in line (1 is next) while QUEUED. */
+  queuePosition?: number;
+  /** Rough seconds until the entry gets a slot, while QUEUED. */
+  etaSeconds?: number;
+}
+
+const QUEUE_ID_PREFIX = "queue_";
+
+/** Whether `id` is a queue id rather than a Runway task id. */
+export function isQueueId(id: string): boolean {
+  return id.startsWith(QUEUE_ID_PREFIX);
+}
+
+export interface QueueRequest {
+  tool: string;
+  /** Fair queuing is per client (see usageClient). */
+  client: string;
+  /** Higher goes first; default 0. */
+  priority?: number;
+}
+
+/**
+ * A place in line. `ready` resolves once the entry holds a slot and may call
+ * Runway; it rejects if the entry is cancelled first.
+ */
+export interface QueueTicket {
+  id: string;
+  /** False when a slot was free and `ready` has already resolved. */
+  queued: boolean;
+  ready: Promise<void>;
+}
+
+export class QueueFullError extends Error {
+  constructor(public readonly limit: number) {
+    super(`The task queue is full (${limit} waiting); try again shortly`);
+    this.name = "QueueFullError";
+  }
+}
+
+export class QueuedTaskCancelledError extends Error {
+  constructor(public readonly queueId: string) {
+    super(`Queued task ${queueId} was cancelled before it started`);
+    this.name = "QueuedTaskCancelledError";
+  }
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (err: unknown) => void;
+}
+
+function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Nobody may be listening; a rejection is still reported where one is.
+  promise.catch(() => undefined);
+  return { promise, resolve, reject };
+}
+
+interface Entry {
+  id: string;
+  account: Account;
+  runway: RunwayML;
+  tool: string;
+  client: string;
+  priority: number;
+  state: QueueState;
+  enqueuedAt: number;
+  /** When the entry got its slot. */
+  grantedAt?: number;
+  /** Last time anyone saw its task's status. */
+  checkedAt?: number;
+  finishedAt?: number;
+  taskId?: string;
+  error?: unknown;
+  cancelRequested?: boolean;
+  ready: Deferred<void>;
+  started: Deferred<string>;
+}
+
+interface Account {
+  /** Queued entries in arrival order. */
+  queue: Entry[];
+  /** Entries holding a slot. */
+  active: Set<Entry>;
+  /** When each client last got a slot. */
+  lastServed: Map<string, number>;
+  /** Moving average of how long a task holds its slot. */
+  averageMs: number;
+}
+
+// Which queued entry goes next: highest priority, then the client with the
+// fewest tasks running, then the one served longest ago, then arrival order.
+function pickNext(
+  queue: Entry[],
+  running: Map<string, number>,
+  lastServed: Map<string, number>
+): number {
+  let best = 0;
+  for (let i = 1; i < queue.length; i++) {
+    const a = queue[i];
+    const b = queue[best];
+    const order =
+      b.priority - a.priority ||
+      (running.get(a.client) ?? 0) - (running.get(b.client) ?? 0) ||
+      (lastServed.get(a.client) ?? -Infinity) - (lastServed.get(b.client) ?? -Infinity);
+    if (order < 0) best = i;
+  }
+  return best;
+}
+
+function runningByClient(account: Account): Map<string, number> {
+  const running = new Map<string, number>();
+  for (const e of account.active) {
+    running.set(e.client, (running.get(e.client) ?? 0) + 1);
+  }
+  return running;
+}
+
+/**
+ * Limits how many Runway tasks run at once per Runway account, queuing the
+ * rest. A slot is held from the create call until the task is seen in a
+ * terminal status (`observe`), is cancelled (`settled`) or its create fails.
+ */
+export class TaskScheduler {
+  private readonly accounts = new Map<string, Account>();
+  private readonly entries = new Map<string, Entry>();
+  private readonly byTaskId = new Map<string, Entry>();
+  private sweeper: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly settings: {
+      maxConcurrency: number;
+      maxQueued: number;
+      defaultTaskMs: number;
+      sweepMs: number;
+      retainMs: number;
+      startedTtlMs: number;
+    } = schedulerSettings
+  ) {}
+
+  private account(runway: RunwayML): Account {
+    // Concurrency limits are per Runway organization, i.e. per API key.
+    const key = createHash("sha256").update(runway.apiKey).digest("hex");
+    let account = this.accounts.get(key);
+    if (!account) {
+      account = {
+        queue: [],
+        active: new Set(),
+        lastServed: new Map(),
+        averageMs: this.settings.defaultTaskMs
+      };
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+
+  enqueue(runway: RunwayML, request: QueueRequest): QueueTicket {
+    this.prune();
+    const account = this.account(runway);
+    if (account.queue.length >= this.settings.maxQueued) {
+      throw new QueueFullError(this.settings.maxQueued);
+    }
+    const entry: Entry = {
+      id: `${QUEUE_ID_PREFIX}${randomUUID()}`,
+      account,
+      runway,
+      tool: request.tool,
+      client: request.client,
+      priority: request.priority ?? 0,
+      state: "QUEUED",
+      enqueuedAt: Date.now(),
+      ready: deferred(),
+      started: deferred()
+    };
+    this.entries.set(entry.id, entry);
+    account.queue.push(entry);
+    this.dispatch(account);
+    return { id: entry.id, queued: entry.state === "QUEUED", ready: entry.ready.promise };
+  }
+
+  /** The entry's Runway task was created. False if it was cancelled meanwhile. */
+  started(id: string, taskId: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return true;
+    entry.state = "STARTED";
+    entry.taskId = taskId;
+    entry.checkedAt = Date.now();
+    this.byTaskId.set(taskId, entry);
+    entry.started.resolve(taskId);
+    return !entry.cancelRequested;
+  }
+
+  /** The entry's create call failed; its slot is free again. */
+  failed(id: string, err: unknown): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.state = "FAILED";
+    entry.error = err;
+    entry.started.reject(err);
+    this.free(entry);
+  }
+
+  /** Note a task's latest status; a terminal one frees its slot. */
+  observe(task: { id: string; status: TaskStatus }): void {
+    const entry = this.byTaskId.get(task.id);
+    if (!entry) return;
+    entry.checkedAt = Date.now();
+    if (isTerminalStatus(task.status)) this.free(entry);
+  }
+
+  /** The task was cancelled or deleted; its slot is free again. */
+  settled(taskId: string): void {
+    const entry = this.byTaskId.get(taskId);
+    if (entry) this.free(entry);
+  }
+
+  /**
+   * Take a queued entry out of line before it reaches Runway. An entry whose
+   * create call is in flight is marked so its task is cancelled once created.
+   * Returns the entry's status, or undefined for an unknown id or, when
+   * `client` is given, one that another client enqueued.
+   */
+  cancel(id: string, client?: string): QueueStatus | undefined {
+    const entry = this.entry(id, client);
+    if (!entry) return undefined;
+    if (entry.state === "QUEUED") {
+      const { queue } = entry.account;
+      queue.splice(queue.indexOf(entry), 1);
+      entry.state = "CANCELLED";
+      entry.finishedAt = Date.now();
+      const err = new QueuedTaskCancelledError(id);
+      entry.ready.reject(err);
+      entry.started.reject(err);
+    } else if (entry.state === "STARTING") {
+      entry.cancelRequested = true;
+    }
+    return this.view(entry);
+  }
+
+  /** The entry's status; undefined if `client` is given and did not enqueue it. */
+  get(id: string, client?: string): QueueStatus | undefined {
+    const entry = this.entry(id, client);
+    return entry && this.view(entry);
+  }
+
+  /** Why the entry's create call failed, if it did. */
+  failure(id: string): unknown {
+    return this.entries.get(id)?.error;
+  }
+
+  /**
+   * Resolve with the entry's Runway task id once it is created. Rejects with
+   * the create error, QueuedTaskCancelledError, or AbortError on `signal`.
+   */
+  whenStarted(id: string, { signal }: { signal?: AbortSignal } = {}): Promise<string> {
+    const entry = this.entries.get(id);
+    if (!entry) return Promise.reject(new Error(`Unknown queue id ${id}`));
+    if (!signal) return entry.started.promise;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new AbortError());
+      if (signal.aborted) return onAbort();
+      signal.addEventListener("abort", onAbort, { once: true });
+      entry.started.promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener("abort", onAbort);
+      });
+    });
+  }
+
+  /** Every account's running and queued entries, for operators. */
+  snapshot() {
+    return [...this.accounts.values()].map((account) => ({
+      running: [...account.active].map((e) => ({
+        ...this.view(e),
+        client: e.client,
+        priority: e.priority
+      })),
+      queued: account.queue.map((e) => ({ ...this.view(e), client: e.client, priority: e.priority })),
+      averageTaskSeconds: Math.round(account.averageMs / 1000)
+    }));
+  }
+
+  private entry(id: string, client: string | undefined): Entry | undefined {
+    const entry = this.entries.get(id);
+    return client === undefined || entry?.client === client ? entry : undefined;
+  }
+
+  private view(entry: Entry): QueueStatus {
+    const position = entry.state === "QUEUED" ? this.position(entry) : undefined;
+    return {
+      id: entry.id,
+      status: entry.state,
+      tool: entry.tool,
+      enqueuedAt: new Date(entry.enqueuedAt).toISOString(),
+      ...(entry.taskId ? { taskId: entry.taskId } : {}),
+      ...(position !== undefined
+        ? {
+            queuePosition: position,
+            etaSeconds: Math.round(
+              (Math.ceil(position / this.settings.maxConcurrency) * entry.account.averageMs) / 1000
+            )
+          }
+        : {})
+    };
+  }
+
+  // Replay the pick order until it reaches `entry`.
+  private position(entry: Entry): number {
+    const { account } = entry;
+    const queue = [...account.queue];
+    const running = runningByClient(account);
+    const lastServed = new Map(account.lastServed);
+    for (let position = 1, tick = Date.now(); queue.length; position++, tick++) {
+      const [next] = queue.splice(pickNext(queue, running, lastServed), 1);
+      if (next === entry) return position;
+      running.set(next.client, (running.get(next.client) ?? 0) + 1);
+      lastServed.set(next.client, tick);
+    }
+    return account.queue.length;
+  }
+
+  private free(entry: Entry, { expired = false }: { expired?: boolean } = {}): void {
+    const { account } = entry;
+    if (!account.active.delete(entry)) return;
+    const now = Date.now();
+    entry.finishedAt = now;
+    // How long an expired task really ran is unknown, so it does not count.
+    if (entry.taskId && entry.grantedAt && !expired) {
+      account.averageMs = 0.8 * account.averageMs + 0.2 * (now - entry.grantedAt);
+    }
+    this.dispatch(account);
+  }
+
+  private dispatch(account: Account): void {
+    while (account.queue.length && account.active.size < this.settings.maxConcurrency) {
+      const index = pickNext(account.queue, runningByClient(account), account.lastServed);
+      const [entry] = account.queue.splice(index, 1);
+      const now = Date.now();
+      entry.state = "STARTING";
+      entry.grantedAt = now;
+      account.active.add(entry);
+      account.lastServed.set(entry.client, now);
+      entry.ready.resolve();
+    }
+    this.scheduleSweep();
+  }
+
+  // Runs while the scheduler holds any entry, so they expire even when idle.
+  private scheduleSweep(): void {
+    const busy = this.entries.size > 0;
+    if (busy && !this.sweeper) {
+      this.sweeper = setInterval(() => void this.sweep(), this.settings.sweepMs);
+      this.sweeper.unref();
+    } else if (!busy && this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+  }
+
+  // Tasks started without anyone waiting on them (and no webhook) are only
+  // seen again here, so while calls wait, check the ones that have gone quiet.
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+    this.prune(now);
+    const quiet = [...this.accounts.values()]
+      .filter((a) => a.queue.length)
+      .flatMap((a) => [...a.active])
+      .filter((e) => e.taskId && now - (e.checkedAt ?? 0) >= this.settings.sweepMs);
+    await Promise.all(
+      quiet.map(async (entry) => {
+        try {
+          this.observe(await entry.runway.tasks.retrieve(entry.taskId!));
+        } catch (err: unknown) {
+          if (err instanceof NotFoundError) this.free(entry);
+        }
+      })
+    );
+    this.scheduleSweep();
+  }
+
+  // Also expires started tasks that went unseen for startedTtlMs, so entries
+  // whose tasks nobody polls still leave the maps.
+  private prune(now = Date.now()): void {
+    for (const [id, entry] of this.entries) {
+      if (entry.state === "STARTED" && now - (entry.checkedAt ?? 0) > this.settings.startedTtlMs) {
+        this.free(entry, { expired: true });
+      }
+      if (entry.finishedAt && now - entry.finishedAt > this.settings.retainMs) {
+        this.entries.delete(id);
+        if (entry.taskId) this.byTaskId.delete(entry.taskId);
+      }
+    }
+  }
+}
+
+let sharedScheduler: TaskScheduler | null | undefined;
+
+/**
+ * The process-wide scheduler, or null when RUNWAY_MAX_CONCURRENCY is unset
+ * and create calls go straight to Runway.
+ */
+export function getTaskScheduler(): TaskScheduler | null {
+  if (sharedScheduler === undefined) {
+    sharedScheduler = schedulerSettings.maxConcurrency > 0 ? new TaskScheduler() : null;
+  }
+  return sharedScheduler;
+}
@@ -0,0 +1,188 @@
+// File: src/sessions.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  StreamableHTTPServerTransport
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Identity } from "./auth.js";
+
+export const sessionSettings = {
+  /** A session nobody has used for this long is closed. */
+  idleTtlMs: Number(process.env.MCP_SESSION_IDLE_MINUTES || 30) * 60 * 1000,
+  /** Sessions are closed this long after they started, however busy. */
+  maxAgeMs: Number(process.env.MCP_SESSION_MAX_HOURS || 24) * 60 * 60 * 1000,
+  maxSessions: Number(process.env.MCP_MAX_SESSIONS || 1000),
+  sweepMs: 60 * 1000
+};
+
+/**
+ * One live MCP session. It belongs to the identity that initialized it.
+ */
+export interface McpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  identity?: Identity;
+  /** Whether the session calls Runway with the caller's own key. */
+  ownRunwayKey: boolean;
+  /** Whether a dropped SSE stream can be resumed with Last-Event-ID. */
+  resumable: boolean;
+}
+
+/**
+ * A session as GET /admin/sessions lists it.
+ */
+export interface SessionInfo {
+  id: string;
+  /** API key name or OAuth subject, when auth is on. */
+  identity?: string;
+  /** clientInfo name and version from initialize. */
+  client?: string;
+  ownRunwayKey: boolean;
+  resumable: boolean;
+  /** Requests in flight, including an open GET stream. */
+  activeRequests: number;
+  createdAt: string;
+  lastSeenAt: string;
+  /** When the session will be closed if it stays idle. */
+  expiresAt: string;
+}
+
+/**
+ * Every session slot is taken by a session with a request in flight.
+ */
+export class SessionLimitError extends Error {
+  constructor(public readonly limit: number) {
+    super(`This server already has ${limit} active MCP sessions; try again shortly`);
+    this.name = "SessionLimitError";
+  }
+}
+
+interface Entry {
+  session: McpSession;
+  createdAt: number;
+  lastSeenAt: number;
+  active: number;
+}
+
+/**
+ * Live MCP sessions. Idle sessions expire after `idleTtlMs` and every session
+ * after `maxAgeMs`; at `maxSessions` the least recently used idle session is
+ * closed to make room, and new sessions are refused while none is idle. A
+ * request in flight, such as a tool call waiting on Runway, keeps its session
+ * from going idle.
+ */
+export class SessionRegistry {
+  private readonly entries = new Map<string, Entry>();
+  private sweeper: NodeJS.Timeout | undefined;
+
+  constructor(private readonly settings = sessionSettings) {}
+
+  /**
+   * Make room for one more session, closing the least recently used idle
+   * one if needed. Throws SessionLimitError when every session is busy.
+   */
+  makeRoom(): void {
+    while (this.entries.size >= this.settings.maxSessions) {
+      const victim = this.leastRecentlyUsedIdle();
+      if (!victim) throw new SessionLimitError(this.settings.maxSessions);
+      void this.close(victim, "evicted to stay under MCP_MAX_SESSIONS");
+    }
+  }
+
+  add(id: string, session: McpSession): void {
+    this.makeRoom();
+    const now = Date.now();
+    this.entries.set(id, { session, createdAt: now, lastSeenAt: now, active: 0 });
+    if (!this.sweeper) {
+      this.sweeper = setInterval(() => this.sweep(), this.settings.sweepMs);
+      this.sweeper.unref();
+    }
+  }
+
+  get(id: string): McpSession | undefined {
+    return this.entries.get(id)?.session;
+  }
+
+  /**
+   * Note a request on the session; call the returned function once its
+   * response is finished.
+   */
+  begin(id: string): () => void {
+    const entry = this.entries.get(id);
+    if (!entry) return () => undefined;
+    entry.active++;
+    entry.lastSeenAt = Date.now();
+    return () => {
+      entry.active--;
+      entry.lastSeenAt = Date.now();
+    };
+  }
+
+  /** Forget a session whose transport has closed. */
+  remove(id: string): void {
+    this.entries.delete(id);
+    if (!this.entries.size && this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+  }
+
+  /**
+   * Close a session's transport and server. Tool calls still waiting on
+   * Runway are aborted and cancel their tasks.
+   */
+  async close(id: string, reason?: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.remove(id);
+    if (reason) console.log(`Closing MCP session ${id}: ${reason}`);
+    try {
+      await entry.session.transport.close();
+      await entry.session.server.close();
+    } catch (err: unknown) {
+      console.error(`Closing MCP session ${id} failed:`, (err as Error).message);
+    }
+  }
+
+  list(): SessionInfo[] {
+    return [...this.entries].map(([id, entry]) => {
+      const { session } = entry;
+      const client = session.server.server.getClientVersion();
+      return {
+        id,
+        ...(session.identity ? { identity: session.identity.subject } : {}),
+        ...(client ? { client: `${client.name}/${client.version}` } : {}),
+        ownRunwayKey: session.ownRunwayKey,
+        resumable: session.resumable,
+        activeRequests: entry.active,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        lastSeenAt: new Date(entry.lastSeenAt).toISOString(),
+        expiresAt: new Date(this.expiresAt(entry)).toISOString()
+      };
+    });
+  }
+
+  private expiresAt(entry: Entry): number {
+    const { maxAgeMs, idleTtlMs } = this.settings;
+    return Math.min(entry.createdAt + maxAgeMs, entry.lastSeenAt + idleTtlMs);
+  }
+
+  private leastRecentlyUsedIdle(): string | undefined {
+    let victim: [string, Entry] | undefined;
+    for (const [id, entry] of this.entries) {
+      if (entry.active === 0 && (!victim || entry.lastSeenAt < victim[1].lastSeenAt)) {
+        victim = [id, entry];
+      }
+    }
+    return victim?.[0];
+  }
+
+  private sweep(now = Date.now()): void {
+    for (const [id, entry] of this.entries) {
+      if (now >= entry.createdAt + this.settings.maxAgeMs) {
+        void this.close(id, "reached MCP_SESSION_MAX_HOURS");
+      } else if (entry.active === 0 && now >= entry.lastSeenAt + this.settings.idleTtlMs) {
+        void this.close(id, "idle for MCP_SESSION_IDLE_MINUTES");
+      }
+    }
+  }
+}
@@ -0,0 +1,267 @@
+// File: src/taskLedger.ts
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { z } from "zod";
+import type { MirroredOutput } from "./assets.js";
+import type { CostEstimate } from "./credits.js";
+import { isTerminalStatus, type TaskStatus } from "./taskWatch.js";
+
+export type { TaskStatus };
+
+export const TASK_STATUSES = [
+  "PENDING",
+  "THROTTLED",
+  "RUNNING",
+  "SUCCEEDED",
+  "FAILED",
+  "CANCELLED"
+] as const satisfies readonly TaskStatus[];
+
+export interface CallbackDelivery {
+  attempt: number;
+  at: string;
+  statusCode?: number;
+  error?: string;
+}
+
+/**
+ * Completion webhook requested for a task, with every delivery attempt.
+ */
+export interface CallbackRecord {
+  url: string;
+  delivered: boolean;
+  attempts: CallbackDelivery[];
+}
+
+/**
+ * One generation as we saw it: what was asked for, by whom, and how it ended.
+ */
+export interface TaskRecord {
+  taskId: string;
+  tool: string;
+  model?: string;
+  promptText?: string;
+  inputs: Record<string, unknown>;
+  sessionId?: string;
+  client?: string;
+  /** Authenticated caller as a principal, e.g. "api-key:ci"; only they may see the task. */
+  identity?: string;
+  /** Credits the task was expected to cost when it was created. */
+  estimate?: CostEstimate;
+  /** Idempotency key the task was created under, if any. */
+  idempotencyKey?: string;
+  status: TaskStatus;
+  output: string[];
+  failure?: string;
+  failureCode?: string;
+  callback?: CallbackRecord;
+  /** Durable copies of the outputs, when asset mirroring is on. */
+  assets?: MirroredOutput[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export type TaskRecordUpdate = Partial<
+  Pick<TaskRecord, "status" | "output" | "failure" | "failureCode" | "callback" | "assets">
+>;
+
+/**
+ * Filters shared by the runway.tasks.list/search tools and GET /tasks.
+ */
+export const taskFilterShape = {
+  tool: z.string().optional().describe("Tool name, e.g. runway.image_to_video."),
+  model: z.string().optional(),
+  status: z.enum(TASK_STATUSES).optional(),
+  since: z
+    .string()
+    .refine((s) => !Number.isNaN(Date.parse(s)), "since must be an ISO 8601 date")
+    .optional()
+    .describe("Only tasks created at or after this ISO 8601 date/time."),
+  until: z
+    .string()
+    .refine((s) => !Number.isNaN(Date.parse(s)), "until must be an ISO 8601 date")
+    .optional()
+    .describe("Only tasks created at or before this ISO 8601 date/time."),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+};
+
+export const taskQueryShape = {
+  ...taskFilterShape,
+  text: z
+    .string()
+    .optional()
+    .describe("Case-insensitive substring match on the prompt text.")
+};
+
+export type TaskQuery = z.infer<z.ZodObject<typeof taskQueryShape>> & {
+  /** Only tasks recorded under this identity. */
+  identity?: string;
+};
+
+/**
+ * Storage for task records. Implementations only need to be durable enough
+ * for their deployment; callers treat failures as non-fatal.
+ */
+export interface TaskLedger {
+  record(record: TaskRecord): Promise<void>;
+  /** Patch an existing record; unknown task ids are ignored. */
+  update(taskId: string, update: TaskRecordUpdate): Promise<void>;
+  get(taskId: string): Promise<TaskRecord | undefined>;
+  /** Matching records, newest first. */
+  list(query: TaskQuery): Promise<TaskRecord[]>;
+}
+
+function applyUpdate(record: TaskRecord, update: TaskRecordUpdate): TaskRecord {
+  const now = new Date().toISOString();
+  const status = update.status ?? record.status;
+  return {
+    ...record,
+    ...update,
+    updatedAt: now,
+    ...(isTerminalStatus(status) && !record.completedAt ? { completedAt: now } : {})
+  };
+}
+
+function matches(record: TaskRecord, q: TaskQuery): boolean {
+  if (q.tool && record.tool !== q.tool) return false;
+  if (q.model && record.model !== q.model) return false;
+  if (q.status && record.status !== q.status) return false;
+  if (q.identity !== undefined && record.identity !== q.identity) return false;
+  const created = Date.parse(record.createdAt);
+  if (q.since && created < Date.parse(q.since)) return false;
+  if (q.until && created > Date.parse(q.until)) return false;
+  if (q.text) {
+    const haystack = (record.promptText ?? "").toLowerCase();
+    if (!haystack.includes(q.text.toLowerCase())) return false;
+  }
+  return true;
+}
+
+/**
+ * In-process ledger; also the working set for JsonFileTaskLedger.
+ */
+export class MemoryTaskLedger implements TaskLedger {
+  protected records = new Map<string, TaskRecord>();
+
+  async record(record: TaskRecord): Promise<void> {
+    this.records.set(record.taskId, record);
+  }
+
+  async update(taskId: string, update: TaskRecordUpdate): Promise<void> {
+    const existing = this.records.get(taskId);
+    if (existing) {
+      this.records.set(taskId, applyUpdate(existing, update));
+    }
+  }
+
+  async get(taskId: string): Promise<TaskRecord | undefined> {
+    return this.records.get(taskId);
+  }
+
+  async list(query: TaskQuery): Promise<TaskRecord[]> {
+    return [...this.records.values()]
+      .filter((r) => matches(r, query))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(query.offset, query.offset + query.limit);
+  }
+}
+
+/**
+ * Ledger persisted as a single JSON array, rewritten atomically on change.
+ */
+export class JsonFileTaskLedger extends MemoryTaskLedger {
+  private loaded: Promise<void> | undefined;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= readFile(this.filePath, "utf8")
+      .then(
+        (raw) => {
+          for (const r of JSON.parse(raw) as TaskRecord[]) {
+            this.records.set(r.taskId, r);
+          }
+        },
+        (err: NodeJS.ErrnoException) => {
+          if (err.code !== "ENOENT") throw err;
+        }
+      )
+      .catch((err: unknown) => {
+        this.loaded = undefined;
+        throw err;
+      });
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.records.values()], null, 2);
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await writeFile(tmp, snapshot);
+        await rename(tmp, this.filePath);
+      });
+    return this.writes;
+  }
+
+  async record(record: TaskRecord): Promise<void> {
+    await this.load();
+    await super.record(record);
+    await this.persist();
+  }
+
+  async update(taskId: string, update: TaskRecordUpdate): Promise<void> {
+    await this.load();
+    if (!this.records.has(taskId)) return;
+    await super.update(taskId, update);
+    await this.persist();
+  }
+
+  async get(taskId: string): Promise<TaskRecord | undefined> {
+    await this.load();
+    return super.get(taskId);
+  }
+
+  async list(query: TaskQuery): Promise<TaskRecord[]> {
+    await this.load();
+    return super.list(query);
+  }
+}
+
+/**
+ * Keep records readable: inline data URIs are replaced by a short summary.
+ */
+export function summarizeInputs(args: Record<string, unknown>): Record<string, unknown> {
+  const summarize = (v: unknown): unknown => {
+    if (typeof v === "string" && v.startsWith("data:")) {
+      return `${v.slice(0, v.indexOf(",") + 1)}…(${v.length} chars)`;
+    }
+    if (Array.isArray(v)) return v.map(summarize);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, summarize(x)]));
+    }
+    return v;
+  };
+  return summarize(args) as Record<string, unknown>;
+}
+
+let sharedLedger: TaskLedger | undefined;
+
+/**
+ * The process-wide ledger. TASK_LEDGER_PATH selects the JSON file
+ * (default data/tasks.json); TASK_LEDGER=memory keeps it in-process only.
+ */
+export function getTaskLedger(): TaskLedger {
+  sharedLedger ??=
+    process.env.TASK_LEDGER === "memory"
+      ? new MemoryTaskLedger()
+      : new JsonFileTaskLedger(process.env.TASK_LEDGER_PATH || "data/tasks.json");
+  return sharedLedger;
+}
@@ -0,0 +1,237 @@
+// File: src/taskResources.ts
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult
+} from "@modelcontextprotocol/sdk/types.js";
+import { canUseTool } from "./auth.js";
+import {
+  assertTaskOwner,
+  recordTaskOutcome,
+  taskOutputUri,
+  taskOwner,
+  taskUri,
+  TASKS_URI,
+  TaskNotFoundError,
+  type ToolContext
+} from "./runwayTools.js";
+import { isTerminalStatus, watchTask } from "./taskWatch.js";
+
+const TASK_URI = /^runway:\/\/tasks\/([^/]+)(?:\/outputs\/(\d+))?$/;
+const RECENT_LIMIT = 50;
+// Larger outputs are returned as a link instead of inline bytes.
+const MAX_INLINE_BYTES = Number(process.env.RESOURCE_MAX_INLINE_BYTES || 10 * 1024 * 1024);
+
+type Variable = string | string[];
+const single = (v: Variable) => (Array.isArray(v) ? v[0] : v);
+
+// Like runway.tasks.list: only the caller's own tasks.
+async function recentTasks(ctx: ToolContext) {
+  return ctx.ledger
+    ? ctx.ledger.list({ limit: RECENT_LIMIT, offset: 0, identity: taskOwner(ctx) })
+    : [];
+}
+
+// Another caller's task reads like an unknown one, as with the task tools.
+async function assertOwnTask(taskId: string, ctx: ToolContext): Promise<void> {
+  try {
+    await assertTaskOwner(taskId, ctx);
+  } catch (err: unknown) {
+    if (err instanceof TaskNotFoundError) throw new McpError(ErrorCode.InvalidParams, err.message);
+    throw err;
+  }
+}
+
+async function readOutput(uri: string, url: string): Promise<ReadResourceResult> {
+  const res = await fetch(url);
+  const size = Number(res.headers.get("content-length") || 0);
+  if (!res.ok || size > MAX_INLINE_BYTES) {
+    await res.body?.cancel();
+    return { contents: [{ uri, mimeType: "text/uri-list", text: url }] };
+  }
+  const body = Buffer.from(await res.arrayBuffer());
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: res.headers.get("content-type") ?? "application/octet-stream",
+        blob: body.toString("base64")
+      }
+    ]
+  };
+}
+
+/**
+ * Expose Runway tasks as MCP resources:
+ *
+ * - runway://tasks — recent tasks from the ledger
+ * - runway://tasks/{id} — the task as JSON (backed by tasks.retrieve)
+ * - runway://tasks/{id}/outputs/{n} — output n (0-based), inline or as a link
+ *
+ * Register them for identities allowed runway.tasks.retrieve. Listing needs
+ * runway.tasks.list as well, and like the tools only shows the caller's tasks.
+ *
+ * Subscribing to a task (or one of its outputs) polls it until it settles and
+ * sends resources/updated on every status or progress change.
+ */
+export function registerTaskResources(
+  server: McpServer,
+  ctx: Omit<ToolContext, "sessionId" | "client">
+) {
+  const canList = canUseTool(ctx.identity, "runway.tasks.list");
+
+  if (canList) {
+    server.registerResource(
+      "tasks",
+      TASKS_URI,
+      {
+        title: "Recent Runway tasks",
+        description: `Your ${RECENT_LIMIT} most recent tasks created through this server.`,
+        mimeType: "application/json"
+      },
+      async (uri) => ({
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({ tasks: await recentTasks(ctx) }, null, 2)
+          }
+        ]
+      })
+    );
+  }
+
+  server.registerResource(
+    "task",
+    new ResourceTemplate(taskUri("{id}"), {
+      list: canList
+        ? async () => ({
+            resources: (await recentTasks(ctx)).map((t) => ({
+              uri: taskUri(t.taskId),
+              name: t.taskId,
+              title: `${t.tool} (${t.status})`,
+              ...(t.promptText ? { description: t.promptText } : {}),
+              mimeType: "application/json"
+            }))
+          })
+        : undefined
+    }),
+    {
+      title: "Runway task",
+      description: "Status, progress and output URLs of a Runway task.",
+      mimeType: "application/json"
+    },
+    async (uri, { id }) => {
+      await assertOwnTask(single(id), ctx);
+      const task = await ctx.runway.tasks.retrieve(single(id));
+      await recordTaskOutcome(task, ctx);
+      return {
+        contents: [
+          { uri: uri.href, mimeType: "application/json", text: JSON.stringify(task, null, 2) }
+        ]
+      };
+    }
+  );
+
+  server.registerResource(
+    "task-output",
+    new ResourceTemplate(taskOutputUri("{id}", "{n}"), {
+      list: canList
+        ? async () => ({
+            resources: (await recentTasks(ctx))
+              .filter((t) => t.status === "SUCCEEDED")
+              .flatMap((t) =>
+                t.output.map((_, n) => ({
+                  uri: taskOutputUri(t.taskId, n),
+                  name: `${t.taskId} output ${n}`,
+                  ...(t.assets?.[n]?.contentType ? { mimeType: t.assets[n].contentType } : {})
+                }))
+              )
+          })
+        : undefined
+    }),
+    {
+      title: "Runway task output",
+      description: "One generated file of a succeeded task (0-based index)."
+    },
+    async (uri, { id, n }) => {
+      await assertOwnTask(single(id), ctx);
+      const task = await ctx.runway.tasks.retrieve(single(id));
+      await recordTaskOutcome(task, ctx);
+      const url = Array.isArray(task.output) ? task.output[Number(single(n))] : undefined;
+      if (!url) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Task ${task.id} has no output ${single(n)} (status ${task.status})`
+        );
+      }
+      return readOutput(uri.href, url);
+    }
+  );
+
+  // One poller per subscribed task, shared by all of its subscribed URIs.
+  const watchers = new Map<string, { uris: Set<string>; abort: AbortController }>();
+
+  const watch = (taskId: string) => {
+    const watcher = { uris: new Set<string>(), abort: new AbortController() };
+    watchers.set(taskId, watcher);
+    let initial = true;
+    watchTask(
+      ctx.runway,
+      taskId,
+      async (task) => {
+        await recordTaskOutcome(task, ctx);
+        // The first poll is the state the subscriber just read; not an update.
+        if (initial && !isTerminalStatus(task.status)) {
+          initial = false;
+          return;
+        }
+        initial = false;
+        for (const uri of watcher.uris) {
+          await server.server.sendResourceUpdated({ uri });
+        }
+      },
+      { signal: watcher.abort.signal }
+    )
+      .catch((err: unknown) => {
+        console.error(`Watching task ${taskId} failed:`, (err as Error).message);
+      })
+      .finally(() => {
+        if (watchers.get(taskId) === watcher) watchers.delete(taskId);
+      });
+    return watcher;
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    const match = TASK_URI.exec(params.uri);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to ${params.uri}`);
+    }
+    await assertOwnTask(match[1], ctx);
+    (watchers.get(match[1]) ?? watch(match[1])).uris.add(params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    const match = TASK_URI.exec(params.uri);
+    const watcher = match && watchers.get(match[1]);
+    if (watcher) {
+      watcher.uris.delete(params.uri);
+      if (watcher.uris.size === 0) {
+        watcher.abort.abort();
+        watchers.delete(match[1]);
+      }
+    }
+    return {};
+  });
+
+  server.server.onclose = () => {
+    for (const watcher of watchers.values()) watcher.abort.abort();
+    watchers.clear();
+  };
+}
@@ -0,0 +1,85 @@
+// File: src/taskWatch.ts
+import RunwayML, { AbortError, TaskFailedError, TaskTimedOutError } from "@runwayml/sdk";
+
+export type TaskStatus = RunwayML.TaskRetrieveResponse["status"];
+
+// Runway asks clients not to poll a task more often than every five seconds.
+export const POLL_INTERVAL_MS = 5000;
+
+const TERMINAL_STATUSES: readonly TaskStatus[] = ["SUCCEEDED", "FAILED", "CANCELLED"];
+
+export function isTerminalStatus(status: TaskStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Poll a Runway task until it reaches a terminal status (or the signal
+ * aborts), invoking onUpdate whenever its status or progress changes.
+ * Resolves with the last task state seen.
+ */
+export async function watchTask(
+  runway: RunwayML,
+  id: string,
+  onUpdate: (task: RunwayML.TaskRetrieveResponse) => void | Promise<void>,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<RunwayML.TaskRetrieveResponse | undefined> {
+  let last: RunwayML.TaskRetrieveResponse | undefined;
+  while (!signal?.aborted) {
+    const task = await runway.tasks.retrieve(id);
+    if (!last || task.status !== last.status || task.progress !== last.progress) {
+      await onUpdate(task);
+    }
+    last = task;
+    if (isTerminalStatus(task.status)) {
+      break;
+    }
+    await sleep(POLL_INTERVAL_MS, signal);
+  }
+  return last;
+}
+
+const DEFAULT_WAIT_MS = 10 * 60 * 1000;
+
+/**
+ * Like the SDK's waitForTaskOutput, but reports every status/progress change.
+ * Resolves with the succeeded task; throws TaskFailedError on FAILED or
+ * CANCELLED, TaskTimedOutError once `timeout` ms have passed and AbortError
+ * when `signal` aborts.
+ */
+export async function waitForTask(
+  runway: RunwayML,
+  id: string,
+  {
+    timeout = DEFAULT_WAIT_MS,
+    signal,
+    onUpdate = () => undefined
+  }: {
+    timeout?: number;
+    signal?: AbortSignal;
+    onUpdate?: (task: RunwayML.TaskRetrieveResponse) => void | Promise<void>;
+  } = {}
+): Promise<RunwayML.TaskRetrieveResponse> {
+  const timer = AbortSignal.timeout(timeout);
+  const task =
+    (await watchTask(runway, id, onUpdate, {
+      signal: signal ? AbortSignal.any([timer, signal]) : timer
+    })) ?? (await runway.tasks.retrieve(id));
+  if (task.status === "SUCCEEDED") return task;
+  if (signal?.aborted && !isTerminalStatus(task.status)) throw new AbortError();
+  if (isTerminalStatus(task.status)) throw new TaskFailedError(task);
+  throw new TaskTimedOutError(task);
+}
@@ -0,0 +1,312 @@
+// File: src/uploads.ts
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+export type UploadKind = "image" | "video";
+
+/**
+ * Metadata for a source file uploaded to this server.
+ */
+export interface Upload {
+  id: string;
+  kind: UploadKind;
+  contentType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  filename?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * An upload that was rejected or can no longer be used. `status` is the
+ * HTTP status the REST surface should answer with.
+ */
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+const MB = 1024 * 1024;
+
+export const uploadLimits = {
+  maxImageBytes: Number(process.env.UPLOAD_MAX_IMAGE_BYTES || 16 * MB),
+  maxVideoBytes: Number(process.env.UPLOAD_MAX_VIDEO_BYTES || 64 * MB),
+  maxDimension: Number(process.env.UPLOAD_MAX_DIMENSION || 8000),
+  ttlMs: Number(process.env.UPLOAD_TTL_HOURS || 24) * 60 * 60 * 1000,
+  // Smaller uploads are sent to Runway inline; larger ones by URL.
+  inlineMaxBytes: Number(process.env.UPLOAD_INLINE_MAX_BYTES || 3 * MB)
+};
+
+/** References to uploads look like upload://<id> wherever a media URL is accepted. */
+export const UPLOAD_REF_PREFIX = "upload://";
+
+const UPLOAD_ID = /^[a-f0-9]{32}$/;
+
+interface Sniffed {
+  kind: UploadKind;
+  contentType: string;
+  width?: number;
+  height?: number;
+}
+
+// First video track's width/height from an MP4/QuickTime tkhd box (16.16 fixed point).
+function mp4Dimensions(buf: Buffer): { width: number; height: number } | undefined {
+  for (let i = buf.indexOf("tkhd"); i !== -1; i = buf.indexOf("tkhd", i + 4)) {
+    const body = i + 4;
+    const offset = body + (buf[body] === 1 ? 88 : 76);
+    if (offset + 8 > buf.length) break;
+    const width = buf.readUInt32BE(offset) >>> 16;
+    const height = buf.readUInt32BE(offset + 4) >>> 16;
+    if (width && height) return { width, height };
+  }
+  return undefined;
+}
+
+function jpegDimensions(buf: Buffer): { width: number; height: number } | undefined {
+  let i = 2;
+  while (i + 9 < buf.length) {
+    if (buf[i] !== 0xff) return undefined;
+    const marker = buf[i + 1];
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    const isFrame =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      return { height: buf.readUInt16BE(i + 5), width: buf.readUInt16BE(i + 7) };
+    }
+    i += 2 + buf.readUInt16BE(i + 2);
+  }
+  return undefined;
+}
+
+function webpDimensions(buf: Buffer): { width: number; height: number } | undefined {
+  const chunk = buf.toString("ascii", 12, 16);
+  if (chunk === "VP8 " && buf.length >= 30) {
+    return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === "VP8L" && buf.length >= 25) {
+    const [b0, b1, b2, b3] = [buf[21], buf[22], buf[23], buf[24]];
+    return {
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+    };
+  }
+  if (chunk === "VP8X" && buf.length >= 30) {
+    return { width: 1 + buf.readUIntLE(24, 3), height: 1 + buf.readUIntLE(27, 3) };
+  }
+  return undefined;
+}
+
+/**
+ * Identify a file from its magic bytes rather than trusting the client's
+ * Content-Type, reading image (and MP4/MOV) dimensions on the way.
+ */
+export function sniffMedia(buf: Buffer): Sniffed | undefined {
+  if (buf.length < 12) return undefined;
+  if (buf.readUInt32BE(0) === 0x89504e47 && buf.length >= 24) {
+    return {
+      kind: "image",
+      contentType: "image/png",
+      width: buf.readUInt32BE(16),
+      height: buf.readUInt32BE(20)
+    };
+  }
+  if (buf[0] === 0xff && buf[1] === 0xd8) {
+    return { kind: "image", contentType: "image/jpeg", ...jpegDimensions(buf) };
+  }
+  if (buf.toString("ascii", 0, 4) === "RIFF" && buf.toString("ascii", 8, 12) === "WEBP") {
+    return { kind: "image", contentType: "image/webp", ...webpDimensions(buf) };
+  }
+  if (buf.toString("ascii", 0, 4) === "GIF8") {
+    return {
+      kind: "image",
+      contentType: "image/gif",
+      width: buf.readUInt16LE(6),
+      height: buf.readUInt16LE(8)
+    };
+  }
+  if (buf.toString("ascii", 4, 8) === "ftyp") {
+    const brand = buf.toString("ascii", 8, 12);
+    return {
+      kind: "video",
+      contentType: brand === "qt  " ? "video/quicktime" : "video/mp4",
+      ...mp4Dimensions(buf)
+    };
+  }
+  if (buf.readUInt32BE(0) === 0x1a45dfa3) {
+    return { kind: "video", contentType: "video/webm" };
+  }
+  return undefined;
+}
+
+const normalizeType = (t: string) => {
+  const type = t.split(";")[0].trim().toLowerCase();
+  return type === "image/jpg" ? "image/jpeg" : type;
+};
+
+/**
+ * Check a file against the upload rules; returns what it turned out to be.
+ */
+export function validateUpload(body: Buffer, declaredType?: string): Sniffed {
+  const sniffed = sniffMedia(body);
+  if (!sniffed) {
+    throw new UploadError(
+      "Unsupported file type; expected PNG, JPEG, WebP, GIF, MP4, MOV or WebM",
+      415
+    );
+  }
+  const declared = declaredType && normalizeType(declaredType);
+  if (declared && declared !== "application/octet-stream" && declared !== sniffed.contentType) {
+    throw new UploadError(
+      `File content is ${sniffed.contentType} but was sent as ${declared}`,
+      415
+    );
+  }
+  const limit =
+    sniffed.kind === "image" ? uploadLimits.maxImageBytes : uploadLimits.maxVideoBytes;
+  if (body.length > limit) {
+    throw new UploadError(`${sniffed.kind} uploads are limited to ${limit} bytes`, 413);
+  }
+  if (sniffed.kind === "image" && !(sniffed.width && sniffed.height)) {
+    throw new UploadError("Could not read the image dimensions");
+  }
+  const longest = Math.max(sniffed.width ?? 0, sniffed.height ?? 0);
+  if (longest > uploadLimits.maxDimension) {
+    throw new UploadError(
+      `${sniffed.width}x${sniffed.height} exceeds the ${uploadLimits.maxDimension}px limit`
+    );
+  }
+  return sniffed;
+}
+
+/**
+ * Uploaded files on local disk with a JSON sidecar each. Expired uploads are
+ * never served and are swept whenever a new one is saved.
+ */
+export class UploadStore {
+  constructor(private readonly dir: string) {}
+
+  async save(
+    body: Buffer,
+    { filename, contentType }: { filename?: string; contentType?: string } = {}
+  ): Promise<Upload> {
+    const sniffed = validateUpload(body, contentType);
+    const now = Date.now();
+    const upload: Upload = {
+      id: randomBytes(16).toString("hex"),
+      ...sniffed,
+      size: body.length,
+      ...(filename ? { filename } : {}),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + uploadLimits.ttlMs).toISOString()
+    };
+    await mkdir(this.dir, { recursive: true });
+    const file = join(this.dir, upload.id);
+    await writeFile(`${file}.tmp`, body);
+    await rename(`${file}.tmp`, file);
+    await writeFile(`${file}.json`, JSON.stringify(upload, null, 2));
+
+    this.sweep().catch((err: unknown) => {
+      console.error("Upload sweep failed:", (err as Error).message);
+    });
+    return upload;
+  }
+
+  async get(id: string): Promise<{ upload: Upload; body: Buffer } | undefined> {
+    if (!UPLOAD_ID.test(id)) return undefined;
+    const file = join(this.dir, id);
+    try {
+      const upload = JSON.parse(await readFile(`${file}.json`, "utf8")) as Upload;
+      if (Date.parse(upload.expiresAt) <= Date.now()) return undefined;
+      return { upload, body: await readFile(file) };
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  /** Delete every expired upload. */
+  async sweep(): Promise<void> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+    const now = Date.now();
+    for (const name of names.filter((n) => n.endsWith(".json"))) {
+      const file = join(this.dir, name.slice(0, -".json".length));
+      const upload = JSON.parse(await readFile(`${file}.json`, "utf8")) as Upload;
+      if (Date.parse(upload.expiresAt) <= now) {
+        await rm(file, { force: true });
+        await rm(`${file}.json`, { force: true });
+      }
+    }
+  }
+}
+
+/**
+ * Public view of an upload: the upload:// reference for tool arguments and a
+ * plain URL for anything else.
+ */
+export function describeUpload(upload: Upload, baseUrl = "") {
+  return {
+    ...upload,
+    ref: `${UPLOAD_REF_PREFIX}${upload.id}`,
+    url: `${baseUrl}/uploads/${upload.id}`
+  };
+}
+
+/**
+ * Replace upload:// references anywhere in tool arguments with something
+ * Runway can fetch: a data URI for small files, otherwise this server's URL.
+ */
+export async function resolveUploadRefs<T>(
+  args: T,
+  store: UploadStore | null | undefined,
+  baseUrl = ""
+): Promise<T> {
+  const resolve = async (v: unknown): Promise<unknown> => {
+    if (typeof v === "string" && v.startsWith(UPLOAD_REF_PREFIX)) {
+      const id = v.slice(UPLOAD_REF_PREFIX.length);
+      const found = await store?.get(id);
+      if (!found) {
+        throw new UploadError(`Upload ${id} not found or expired`, 404);
+      }
+      const { upload, body } = found;
+      return upload.size <= uploadLimits.inlineMaxBytes
+        ? `data:${upload.contentType};base64,${body.toString("base64")}`
+        : `${baseUrl}/uploads/${upload.id}`;
+    }
+    if (Array.isArray(v)) return Promise.all(v.map(resolve));
+    if (v && typeof v === "object") {
+      const entries = await Promise.all(
+        Object.entries(v).map(async ([k, x]) => [k, await resolve(x)] as const)
+      );
+      return Object.fromEntries(entries);
+    }
+    return v;
+  };
+  return (await resolve(args)) as T;
+}
+
+let sharedStore: UploadStore | undefined;
+
+/**
+ * The process-wide upload store under UPLOAD_DIR (default data/uploads).
+ */
+export function getUploadStore(): UploadStore {
+  sharedStore ??= new UploadStore(process.env.UPLOAD_DIR || "data/uploads");
+  return sharedStore;
+}
@@ -0,0 +1,383 @@
+// File: src/usage.ts
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/**
+ * Guardrails for one client. Unset means unlimited.
+ */
+export interface ClientLimits {
+  /** Generation requests per minute. */
+  rpm?: number;
+  dailyCredits?: number;
+  monthlyCredits?: number;
+  /** Place in the task queue relative to other clients; higher goes first (default 0). */
+  priority?: number;
+}
+
+export type BudgetPeriod = "daily" | "monthly";
+
+/**
+ * A create call refused by a client's limits. `toJSON` is the structured
+ * error every surface returns.
+ */
+export abstract class UsageLimitError extends Error {
+  abstract readonly code: "RateLimited" | "BudgetExceeded";
+
+  constructor(
+    message: string,
+    public readonly client: string,
+    public readonly resetAt: Date
+  ) {
+    super(message);
+  }
+
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+
+  protected details(): Record<string, unknown> {
+    return {};
+  }
+
+  toJSON() {
+    return {
+      error: this.code,
+      message: this.message,
+      client: this.client,
+      ...this.details(),
+      resetAt: this.resetAt.toISOString(),
+      retryAfterSeconds: this.retryAfterSeconds
+    };
+  }
+}
+
+export class RateLimitedError extends UsageLimitError {
+  readonly code = "RateLimited";
+
+  constructor(
+    client: string,
+    public readonly limit: number,
+    resetAt: Date
+  ) {
+    super(`${client} is over its limit of ${limit} generation requests per minute`, client, resetAt);
+    this.name = "RateLimitedError";
+  }
+
+  protected details() {
+    return { limit: this.limit };
+  }
+}
+
+export class BudgetExceededError extends UsageLimitError {
+  readonly code = "BudgetExceeded";
+
+  constructor(
+    client: string,
+    public readonly period: BudgetPeriod,
+    public readonly limit: number,
+    public readonly used: number,
+    public readonly requested: number,
+    resetAt: Date
+  ) {
+    super(
+      `${client} has used ${used} of its ${period} budget of ${limit} credits; this request needs ${requested}`,
+      client,
+      resetAt
+    );
+    this.name = "BudgetExceededError";
+  }
+
+  protected details() {
+    return { period: this.period, limit: this.limit, used: this.used, requested: this.requested };
+  }
+}
+
+/**
+ * Credits one client has spent in the current UTC day and month.
+ */
+export interface ClientUsage {
+  client: string;
+  day: string;
+  dailyCredits: number;
+  month: string;
+  monthlyCredits: number;
+  /** Generation requests accepted since the record was created. */
+  requests: number;
+  /** The limits applied to the client's latest request. */
+  limits: ClientLimits;
+  updatedAt: string;
+}
+
+/**
+ * Storage for per-client usage counters.
+ */
+export interface UsageStore {
+  get(client: string): Promise<ClientUsage | undefined>;
+  save(usage: ClientUsage): Promise<void>;
+  list(): Promise<ClientUsage[]>;
+}
+
+export class MemoryUsageStore implements UsageStore {
+  protected usage = new Map<string, ClientUsage>();
+
+  async get(client: string): Promise<ClientUsage | undefined> {
+    return this.usage.get(client);
+  }
+
+  async save(usage: ClientUsage): Promise<void> {
+    this.usage.set(usage.client, usage);
+  }
+
+  async list(): Promise<ClientUsage[]> {
+    return [...this.usage.values()].sort((a, b) => a.client.localeCompare(b.client));
+  }
+}
+
+/**
+ * Usage counters in a single JSON file, rewritten atomically on change, so
+ * budgets survive restarts. A failed write (e.g. on a read-only filesystem)
+ * is logged and the counters carry on in memory.
+ */
+export class JsonFileUsageStore extends MemoryUsageStore {
+  private loaded: Promise<void> | undefined;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= readFile(this.filePath, "utf8")
+      .then(
+        (raw) => {
+          for (const u of JSON.parse(raw) as ClientUsage[]) {
+            this.usage.set(u.client, u);
+          }
+        },
+        (err: NodeJS.ErrnoException) => {
+          if (err.code !== "ENOENT") throw err;
+        }
+      )
+      .catch((err: unknown) => {
+        // A bad read is not cached: the next call tries the file again.
+        this.loaded = undefined;
+        throw err;
+      });
+    return this.loaded;
+  }
+
+  async get(client: string): Promise<ClientUsage | undefined> {
+    await this.load();
+    return super.get(client);
+  }
+
+  async save(usage: ClientUsage): Promise<void> {
+    await this.load();
+    await super.save(usage);
+    const snapshot = JSON.stringify([...this.usage.values()], null, 2);
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await writeFile(tmp, snapshot);
+        await rename(tmp, this.filePath);
+      })
+      .catch((err: unknown) => {
+        console.error("Usage store write failed:", (err as Error).message);
+      });
+    return this.writes;
+  }
+
+  async list(): Promise<ClientUsage[]> {
+    await this.load();
+    return super.list();
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const dayOf = (d: Date) => d.toISOString().slice(0, 10);
+const monthOf = (d: Date) => d.toISOString().slice(0, 7);
+const nextDay = (d: Date) =>
+  new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1));
+const nextMonth = (d: Date) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1));
+
+/**
+ * Usage as of `now`: counters from an earlier day or month start again at zero.
+ */
+function current(usage: ClientUsage | undefined, client: string, now: Date): ClientUsage {
+  const base = usage ?? {
+    client,
+    day: dayOf(now),
+    dailyCredits: 0,
+    month: monthOf(now),
+    monthlyCredits: 0,
+    requests: 0,
+    limits: {},
+    updatedAt: now.toISOString()
+  };
+  return {
+    ...base,
+    ...(base.day !== dayOf(now) ? { day: dayOf(now), dailyCredits: 0 } : {}),
+    ...(base.month !== monthOf(now) ? { month: monthOf(now), monthlyCredits: 0 } : {})
+  };
+}
+
+/**
+ * Credits counted against a client for one create call, so they can be given
+ * back if the call fails.
+ */
+export interface Reservation {
+  client: string;
+  credits: number;
+  day: string;
+  month: string;
+}
+
+/**
+ * One client's usage against its limits, as shown by the admin endpoint.
+ */
+export interface UsageReport {
+  client: string;
+  requestsLastMinute: number;
+  rpm?: number;
+  daily: { used: number; limit?: number; remaining?: number; resetAt: string };
+  monthly: { used: number; limit?: number; remaining?: number; resetAt: string };
+  requests: number;
+  updatedAt: string;
+}
+
+/**
+ * Enforces per-client request rates (in memory, sliding one-minute window)
+ * and daily/monthly credit budgets (in the usage store).
+ */
+export class UsageLimiter {
+  private readonly recent = new Map<string, number[]>();
+  // Check-then-count must not interleave, or parallel calls could overspend.
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly store: UsageStore,
+    private readonly defaults: ClientLimits
+  ) {}
+
+  private serialized<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.pending.catch(() => undefined).then(fn);
+    this.pending = run;
+    return run;
+  }
+
+  private limitsFor(overrides: ClientLimits = {}): ClientLimits {
+    const defined = Object.entries(overrides).filter(([, v]) => v !== undefined);
+    return { ...this.defaults, ...Object.fromEntries(defined) };
+  }
+
+  private window(client: string, now: number): number[] {
+    const window = (this.recent.get(client) ?? []).filter((t) => t > now - MINUTE_MS);
+    this.recent.set(client, window);
+    return window;
+  }
+
+  /**
+   * Count a create call costing `credits` against the client, or throw
+   * RateLimitedError / BudgetExceededError without counting anything.
+   */
+  reserve(client: string, credits: number, overrides?: ClientLimits): Promise<Reservation> {
+    return this.serialized(async () => {
+      const limits = this.limitsFor(overrides);
+      const now = new Date();
+      const window = this.window(client, now.getTime());
+      if (limits.rpm !== undefined && window.length >= limits.rpm) {
+        throw new RateLimitedError(client, limits.rpm, new Date((window[0] ?? now.getTime()) + MINUTE_MS));
+      }
+
+      const usage = current(await this.store.get(client), client, now);
+      const budgets: [BudgetPeriod, number | undefined, number, Date][] = [
+        ["daily", limits.dailyCredits, usage.dailyCredits, nextDay(now)],
+        ["monthly", limits.monthlyCredits, usage.monthlyCredits, nextMonth(now)]
+      ];
+      for (const [period, limit, used, resetAt] of budgets) {
+        if (limit !== undefined && used + credits > limit) {
+          throw new BudgetExceededError(client, period, limit, used, credits, resetAt);
+        }
+      }
+
+      window.push(now.getTime());
+      await this.store.save({
+        ...usage,
+        dailyCredits: usage.dailyCredits + credits,
+        monthlyCredits: usage.monthlyCredits + credits,
+        requests: usage.requests + 1,
+        limits,
+        updatedAt: now.toISOString()
+      });
+      return { client, credits, day: usage.day, month: usage.month };
+    });
+  }
+
+  /**
+   * Give back the credits of a create call that failed. The request still
+   * counts towards the rate limit.
+   */
+  release({ client, credits, day, month }: Reservation): Promise<void> {
+    return this.serialized(async () => {
+      const usage = await this.store.get(client);
+      if (!usage || !credits) return;
+      await this.store.save({
+        ...usage,
+        dailyCredits: usage.day === day ? Math.max(0, usage.dailyCredits - credits) : usage.dailyCredits,
+        monthlyCredits:
+          usage.month === month ? Math.max(0, usage.monthlyCredits - credits) : usage.monthlyCredits,
+        updatedAt: new Date().toISOString()
+      });
+    });
+  }
+
+  /** Every known client's usage against its limits. */
+  async report(): Promise<UsageReport[]> {
+    const now = new Date();
+    const period = (used: number, limit: number | undefined, resetAt: Date) => ({
+      used,
+      ...(limit !== undefined ? { limit, remaining: Math.max(0, limit - used) } : {}),
+      resetAt: resetAt.toISOString()
+    });
+    return (await this.store.list()).map((stored) => {
+      const usage = current(stored, stored.client, now);
+      return {
+        client: usage.client,
+        requestsLastMinute: this.window(usage.client, now.getTime()).length,
+        ...(usage.limits.rpm !== undefined ? { rpm: usage.limits.rpm } : {}),
+        daily: period(usage.dailyCredits, usage.limits.dailyCredits, nextDay(now)),
+        monthly: period(usage.monthlyCredits, usage.limits.monthlyCredits, nextMonth(now)),
+        requests: usage.requests,
+        updatedAt: usage.updatedAt
+      };
+    });
+  }
+}
+
+const envLimit = (name: string) => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : undefined;
+};
+
+let sharedLimiter: UsageLimiter | undefined;
+
+/**
+ * The process-wide limiter. Defaults for every client come from
+ * RATE_LIMIT_RPM, CREDIT_BUDGET_DAILY and CREDIT_BUDGET_MONTHLY (unset or 0:
+ * unlimited); counters live in USAGE_STORE_PATH (default data/usage.json) or
+ * in-process with USAGE_STORE=memory.
+ */
+export function getUsageLimiter(): UsageLimiter {
+  sharedLimiter ??= new UsageLimiter(
+    process.env.USAGE_STORE === "memory"
+      ? new MemoryUsageStore()
+      : new JsonFileUsageStore(process.env.USAGE_STORE_PATH || "data/usage.json"),
+    {
+      rpm: envLimit("RATE_LIMIT_RPM"),
+      dailyCredits: envLimit("CREDIT_BUDGET_DAILY"),
+      monthlyCredits: envLimit("CREDIT_BUDGET_MONTHLY")
+    }
+  );
+  return sharedLimiter;
+}
@@ -0,0 +1,316 @@
+// File: src/webhooks.ts
+import { createHmac, randomUUID } from "node:crypto";
+import { lookup as lookupCallback, type LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import RunwayML, { APIConnectionError, InternalServerError, RateLimitError } from "@runwayml/sdk";
+import { z } from "zod";
+import type { CallbackDelivery } from "./taskLedger.js";
+import { isTerminalStatus, sleep, watchTask } from "./taskWatch.js";
+
+/**
+ * Optional completion-callback arguments accepted by every generation tool.
+ */
+export const webhookShape = {
+  callbackUrl: z
+    .string()
+    .url("callbackUrl must be a URL")
+    .refine((u) => /^https?:\/\//i.test(u), "callbackUrl must be http(s)")
+    .optional()
+    .describe(
+      "If set, POST a signed JSON payload here when the task succeeds, fails or is cancelled. Must be a public address."
+    ),
+  callbackSecret: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "HMAC-SHA256 key for the X-Runway-Signature header. Defaults to the server's WEBHOOK_SECRET."
+    )
+};
+
+export interface WebhookTarget {
+  url: string;
+  secret?: string;
+}
+
+export interface WebhookPayload {
+  event: "task.succeeded" | "task.failed" | "task.cancelled";
+  taskId: string;
+  tool: string;
+  status: RunwayML.TaskRetrieveResponse["status"];
+  output: string[];
+  failure?: string;
+  failureCode?: string;
+  createdAt: string;
+  completedAt: string;
+}
+
+export interface WebhookHooks {
+  /** Called once the task has reached a terminal status. */
+  onSettled?: (task: RunwayML.TaskRetrieveResponse) => Promise<void>;
+  /** Called after every attempt with the full attempt log so far. */
+  onAttempt?: (attempts: CallbackDelivery[], delivered: boolean) => Promise<void>;
+}
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 6);
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+// How long a task is watched for a callback before giving up.
+const WATCH_TIMEOUT_MS = Number(process.env.WEBHOOK_WATCH_HOURS || 6) * 60 * 60 * 1000;
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/** Hosts callbacks may reach even on private addresses (WEBHOOK_ALLOWED_HOSTS, comma-separated). */
+const ALLOWED_HOSTS = new Set(
+  (process.env.WEBHOOK_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return PRIVATE_RANGES.check(mapped, "ipv4");
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+const privateHostError = (host: string, address: string) =>
+  new WebhookTargetError(
+    `callbackUrl host ${host} resolves to a private address (${address}); add it to WEBHOOK_ALLOWED_HOSTS to allow it`
+  );
+
+/**
+ * A callback URL the server will not POST to.
+ */
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookTargetError";
+  }
+}
+
+/**
+ * Refuse callback URLs whose host resolves to a loopback, private or
+ * link-local address, so callers cannot make the server POST into its own
+ * network. Checked when the task is created and again before each delivery.
+ */
+export async function assertPublicCallbackUrl(url: string): Promise<void> {
+  const host = hostOf(new URL(url));
+  if (ALLOWED_HOSTS.has(host)) return;
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    throw new WebhookTargetError(`callbackUrl host ${host} could not be resolved`);
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) throw privateHostError(host, blocked);
+}
+
+// dns.lookup for the delivery socket that refuses private addresses, so the
+// address checked is the one connected to: a host cannot pass the check and
+// then resolve somewhere private for the request (DNS rebinding).
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) return callback(err, []);
+    const blocked = addresses.find((a) => isPrivateAddress(a.address));
+    if (blocked) return callback(privateHostError(hostname, blocked.address), []);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POST without following redirects; resolves with the response status.
+function post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  const request = target.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        ...(ALLOWED_HOSTS.has(hostOf(target)) ? {} : { lookup: publicLookup }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Stripe-style signature: HMAC-SHA256 over `${timestamp}.${body}`.
+ * Receivers should recompute it and reject stale timestamps.
+ */
+export function signWebhook(body: string, secret: string, timestamp: number): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function webhookPayload(
+  tool: string,
+  task: RunwayML.TaskRetrieveResponse
+): WebhookPayload {
+  const event =
+    task.status === "SUCCEEDED"
+      ? "task.succeeded"
+      : task.status === "CANCELLED"
+        ? "task.cancelled"
+        : "task.failed";
+  return {
+    event,
+    taskId: task.id,
+    tool,
+    status: task.status,
+    output: Array.isArray(task.output) ? task.output : [],
+    ...(task.failure ? { failure: task.failure } : {}),
+    ...(task.failureCode ? { failureCode: task.failureCode } : {}),
+    createdAt: task.createdAt,
+    completedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * POST the payload, retrying non-2xx responses and network errors with
+ * jittered exponential backoff. Resolves true once a 2xx is received.
+ */
+export async function deliverWebhook(
+  target: WebhookTarget,
+  payload: WebhookPayload,
+  { onAttempt }: WebhookHooks = {}
+): Promise<boolean> {
+  const body = JSON.stringify(payload);
+  const deliveryId = randomUUID();
+  const attempts: CallbackDelivery[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Runway-Event": payload.event,
+      "X-Runway-Delivery": deliveryId
+    };
+    if (target.secret) {
+      headers["X-Runway-Signature"] = signWebhook(
+        body,
+        target.secret,
+        Math.floor(Date.now() / 1000)
+      );
+    }
+
+    const log: CallbackDelivery = { attempt, at: new Date().toISOString() };
+    try {
+      // The host may resolve differently than when the task was created, and
+      // the request itself only connects to addresses that pass the same check.
+      await assertPublicCallbackUrl(target.url);
+      // A redirect could point anywhere; it counts as a failed attempt.
+      log.statusCode = await post(target.url, headers, body);
+    } catch (err: unknown) {
+      log.error = (err as Error).message;
+      if (err instanceof WebhookTargetError) {
+        attempts.push(log);
+        await onAttempt?.([...attempts], false);
+        return false;
+      }
+    }
+    attempts.push(log);
+
+    const delivered = log.statusCode !== undefined && log.statusCode >= 200 && log.statusCode < 300;
+    await onAttempt?.([...attempts], delivered);
+    if (delivered) return true;
+
+    if (attempt < MAX_ATTEMPTS) {
+      const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+      await sleep(ceiling / 2 + Math.random() * (ceiling / 2));
+    }
+  }
+  return false;
+}
+
+// Runway errors worth polling through: rate limits, 5xx and network failures.
+const isTransient = (err: unknown) =>
+  err instanceof RateLimitError ||
+  err instanceof InternalServerError ||
+  err instanceof APIConnectionError;
+
+/**
+ * Poll a task until it settles, retrying transient retrieve errors with
+ * backoff. Gives up after WEBHOOK_WATCH_HOURS (default 6).
+ */
+async function settledTask(runway: RunwayML, id: string): Promise<RunwayML.TaskRetrieveResponse> {
+  const deadline = Date.now() + WATCH_TIMEOUT_MS;
+  for (let failures = 0; ; failures++) {
+    try {
+      const task = await watchTask(runway, id, () => undefined, {
+        signal: AbortSignal.timeout(Math.max(0, deadline - Date.now()))
+      });
+      if (task && isTerminalStatus(task.status)) return task;
+      throw new Error(`Task ${id} did not finish within ${WATCH_TIMEOUT_MS / 3_600_000}h`);
+    } catch (err: unknown) {
+      if (!isTransient(err) || Date.now() >= deadline) throw err;
+      const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** failures);
+      await sleep(Math.min(ceiling / 2 + Math.random() * (ceiling / 2), deadline - Date.now()));
+    }
+  }
+}
+
+/**
+ * Deliver a completion callback for a task. Given only a task id, the task is
+ * polled in the background until it settles first; if it cannot be watched,
+ * that is recorded as a failed attempt.
+ */
+export async function notifyWebhook(
+  runway: RunwayML,
+  tool: string,
+  task: string | RunwayML.TaskRetrieveResponse,
+  target: WebhookTarget,
+  hooks: WebhookHooks = {}
+): Promise<boolean> {
+  let settled: RunwayML.TaskRetrieveResponse;
+  try {
+    settled = typeof task === "string" ? await settledTask(runway, task) : task;
+  } catch (err: unknown) {
+    const log: CallbackDelivery = {
+      attempt: 1,
+      at: new Date().toISOString(),
+      error: `Could not watch the task: ${(err as Error).message}`
+    };
+    await hooks.onAttempt?.([log], false);
+    return false;
+  }
+  await hooks.onSettled?.(settled);
+  return deliverWebhook(target, webhookPayload(tool, settled), hooks);
+}